@@ -0,0 +1,94 @@
+// Local stand-in for the Kickertool live API, serving recorded fixtures from ./fixtures.
+// Enabled with `npm run dev:mock` (vite --mode mock) instead of the proxy to live.kickertool.de.
+
+import { createHash } from 'node:crypto'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Plugin, Connect } from 'vite'
+import { FIXTURES_DIR, readFixture } from './readFixture'
+import { buildSchedule, snapshotAt } from './replay'
+import type { RawTournament, ReplayOptions, ReplaySchedule } from './replay'
+
+export interface KickertoolMockOptions extends ReplayOptions {
+  replay: boolean   // false serves the fixtures exactly as recorded
+  speed: number     // Replay speed factor, 2 = twice as fast
+}
+
+const DEFAULT_OPTIONS: KickertoolMockOptions = {
+  replay: true,
+  speed: 1,
+  matchSeconds: 45,
+  breakSeconds: 15,
+}
+
+// Sends an ETag like a caching proxy would, so conditional requests can be tested
+const sendJson = (req: IncomingMessage, res: ServerResponse, status: number, body: unknown) => {
+  const json = JSON.stringify(body)
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('ETag', etag)
+  if (status === 200 && req.headers['if-none-match'] === etag) {
+    res.statusCode = 304
+    return res.end()
+  }
+  res.statusCode = status
+  res.end(json)
+}
+
+export function kickertoolMock(overrides: Partial<KickertoolMockOptions> = {}): Plugin {
+  const options = { ...DEFAULT_OPTIONS, ...overrides }
+  const schedules = new Map<string, ReplaySchedule>()
+  let startedAt = Date.now()
+
+  const elapsedSeconds = () => ((Date.now() - startedAt) / 1000) * options.speed
+
+  const getTournament = (id: string): unknown | null => {
+    const recorded = readFixture('tournaments', id) as RawTournament | null
+    if (!recorded || !options.replay) return recorded
+    if (!schedules.has(id)) schedules.set(id, buildSchedule(recorded, options))
+    return snapshotAt(recorded, schedules.get(id)!, elapsedSeconds(), startedAt)
+  }
+
+  const handler: Connect.NextHandleFunction = (req: IncomingMessage, res: ServerResponse, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    // Control endpoints: /__mock/reset restarts the replay, ?at=<seconds> jumps to a point in time
+    if (url.pathname === '/__mock/reset') {
+      const at = Number(url.searchParams.get('at')) || 0
+      startedAt = Date.now() - (at * 1000) / options.speed
+      return sendJson(req, res, 200, { elapsed: elapsedSeconds() })
+    }
+    if (url.pathname === '/__mock/status') {
+      return sendJson(req, res, 200, {
+        elapsed: elapsedSeconds(),
+        options,
+        tournaments: Object.fromEntries([...schedules].map(([id, schedule]) => [id, schedule.duration])),
+      })
+    }
+
+    const page = url.pathname.match(/^\/pages\/([^/]+)\.json$/)
+    if (page) {
+      const data = readFixture('pages', page[1])
+      return data ? sendJson(req, res, 200, data) : sendJson(req, res, 404, { error: 'page not found' })
+    }
+
+    const tournament = url.pathname.match(/^\/tournaments\/([^/]+)\.json$/)
+    if (tournament) {
+      const data = getTournament(tournament[1])
+      return data ? sendJson(req, res, 200, data) : sendJson(req, res, 404, { error: 'tournament not found' })
+    }
+
+    next()
+  }
+
+  return {
+    name: 'kickertool-mock',
+    configureServer(server) {
+      server.middlewares.use('/api/kickertool', handler)
+      server.config.logger.info(`  Kickertool mock: serving fixtures from ${FIXTURES_DIR}`)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/kickertool', handler)
+    },
+  }
+}
@@ -0,0 +1,14 @@
+// Recorded Kickertool responses in ./fixtures, shared by the mock server and the tests
+
+import { readFileSync, existsSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+
+export const FIXTURES_DIR = fileURLToPath(new URL('./fixtures/', import.meta.url))
+
+// Slugs and ids come from the URL, only allow plain names to stay inside the fixtures folder
+export const readFixture = (kind: 'pages' | 'tournaments', name: string): unknown | null => {
+  if (!/^[\w-]+$/.test(name)) return null
+  const file = `${FIXTURES_DIR}${kind}/${name}.json`
+  if (!existsSync(file)) return null
+  return JSON.parse(readFileSync(file, 'utf-8'))
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { buildSchedule, snapshotAt } from './replay'
+import { readFixture } from './readFixture'
+import type { RawTournament } from './replay'
+
+const OPTIONS = { matchSeconds: 600, breakSeconds: 60 }
+
+describe('snapshotAt', () => {
+  it('fills the loser bracket of a double elimination in play order', () => {
+    const recorded = readFixture('tournaments', '6940b2c1e4b0a1f2c3d4e5f6') as RawTournament
+    const schedule = buildSchedule(recorded, OPTIONS)
+    const [firstLoserMatch] = recorded.eliminations![0].leftLevels![0].matches!
+    const snapshot = snapshotAt(recorded, schedule, schedule.matches.get(firstLoserMatch._id)!.end, 0)
+    const [elimination] = snapshot.eliminations!
+    const [round1, , round3] = elimination.leftLevels!
+
+    expect(elimination.levels![0].matches!.every((match) => match.valid)).toBe(true)
+    expect(round1.matches![0].valid).toBe(true)
+    expect(round3.matches![0].valid).toBe(false)
+    expect(elimination.third!.matches![0].team1).toBeNull()
+  })
+})
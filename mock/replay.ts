@@ -0,0 +1,281 @@
+// Replays a recorded (finished) Kickertool tournament over time.
+// Matches are scheduled onto tables in their recorded order; at any point in time the
+// snapshot shows queued matches without tables, running matches on a table, finished
+// matches as valid with their result, and KO teams only once they are determined.
+
+interface RawTable {
+  _id: string
+  name: string
+}
+
+interface RawTeam {
+  _id?: string
+  name: string
+}
+
+interface RawMatch {
+  _id: string
+  team1: RawTeam | null
+  team2: RawTeam | null
+  result: [number, number] | null
+  valid: boolean
+  timeEnd: number | null
+  tables: RawTable[] | null
+}
+
+interface RawRound {
+  _id: string
+  name: string
+  matches: RawMatch[] | null
+}
+
+interface RawStats {
+  place: number
+  matches: number
+  won: number
+  lost: number
+  draws: number
+  goals: number
+  goals_in: number
+  goal_diff: number
+  points: number
+}
+
+interface RawStanding {
+  _id: string
+  name: string
+  stats: RawStats
+}
+
+interface RawGroup {
+  standings: RawStanding[] | null
+  rounds?: RawRound[] | null
+  levels?: RawRound[] | null
+}
+
+interface RawElimination {
+  finished: boolean
+  standings: RawStanding[] | null
+  levels: RawRound[] | null
+  leftLevels: RawRound[] | null
+  third?: RawRound | null
+}
+
+export interface RawTournament {
+  name: string
+  qualifying: RawGroup[] | null
+  eliminations: RawElimination[] | null
+}
+
+export interface ReplayOptions {
+  matchSeconds: number   // Duration of a match on the table
+  breakSeconds: number   // Time between a table becoming free and the next match starting
+  tables?: number        // Number of tables, defaults to the tables found in the recording
+}
+
+interface ScheduledMatch {
+  start: number
+  end: number
+  table: RawTable
+}
+
+export interface ReplaySchedule {
+  matches: Map<string, ScheduledMatch>
+  qualifyingEnd: number
+  duration: number
+}
+
+interface MatchRef {
+  match: RawMatch
+  phase: 'qualifying' | 'elimination'
+  order: number
+}
+
+const roundsOf = (rounds: RawRound[] | null | undefined): RawRound[] => rounds ?? []
+const matchesOf = (round: RawRound | null | undefined): RawMatch[] => round?.matches ?? []
+const teamIds = (match: RawMatch): string[] =>
+  [match.team1?._id, match.team2?._id].filter((id): id is string => !!id)
+
+const collectMatches = (tournament: RawTournament): MatchRef[] => {
+  const refs: MatchRef[] = []
+  for (const group of tournament.qualifying ?? []) {
+    for (const round of [...roundsOf(group.rounds), ...roundsOf(group.levels)]) {
+      matchesOf(round).forEach((match) => refs.push({ match, phase: 'qualifying', order: refs.length }))
+    }
+  }
+  for (const elimination of tournament.eliminations ?? []) {
+    // levels and leftLevels are both stored in play order, first round first
+    const rounds = [...roundsOf(elimination.levels), ...roundsOf(elimination.leftLevels)]
+    if (elimination.third) rounds.push(elimination.third)
+    for (const round of rounds) {
+      matchesOf(round).forEach((match) => refs.push({ match, phase: 'elimination', order: refs.length }))
+    }
+  }
+  return refs
+}
+
+// Qualifying always comes first, then the recorded end time decides the order
+const comparePlayOrder = (a: MatchRef, b: MatchRef) => {
+  if (a.phase !== b.phase) return a.phase === 'qualifying' ? -1 : 1
+  const timeA = a.match.timeEnd ?? Infinity
+  const timeB = b.match.timeEnd ?? Infinity
+  if (timeA !== timeB) return timeA - timeB
+  return a.order - b.order
+}
+
+const collectTables = (refs: MatchRef[], count?: number): RawTable[] => {
+  const recorded = new Map<string, RawTable>()
+  refs.forEach(({ match }) => match.tables?.forEach((table) => recorded.set(table._id, table)))
+  const tables = [...recorded.values()].sort((a, b) => a.name.localeCompare(b.name, 'de', { numeric: true }))
+  const wanted = count ?? (tables.length || 4)
+  for (let i = tables.length; i < wanted; i++) {
+    tables.push({ _id: `mock-table-${i + 1}`, name: String(i + 1) })
+  }
+  return tables.slice(0, wanted)
+}
+
+export const buildSchedule = (tournament: RawTournament, options: ReplayOptions): ReplaySchedule => {
+  const refs = collectMatches(tournament).filter(({ match }) => match.valid).sort(comparePlayOrder)
+  const tables = collectTables(refs, options.tables)
+  const tableFreeAt = tables.map(() => 0)
+  const teamFreeAt = new Map<string, number>()
+  const matches = new Map<string, ScheduledMatch>()
+  let lastStart = 0
+  let qualifyingEnd = 0
+  let duration = 0
+
+  for (const { match, phase } of refs) {
+    // Queue order is kept: a match never starts before the one scheduled before it
+    const tableIndex = tableFreeAt.indexOf(Math.min(...tableFreeAt))
+    const teamsReady = Math.max(0, ...teamIds(match).map((id) => teamFreeAt.get(id) ?? 0))
+    const phaseReady = phase === 'elimination' ? qualifyingEnd : 0
+    const start = Math.max(lastStart, tableFreeAt[tableIndex], teamsReady, phaseReady)
+    const end = start + options.matchSeconds
+
+    matches.set(match._id, { start, end, table: tables[tableIndex] })
+    tableFreeAt[tableIndex] = end + options.breakSeconds
+    teamIds(match).forEach((id) => teamFreeAt.set(id, end + options.breakSeconds))
+    lastStart = start
+    if (phase === 'qualifying') qualifyingEnd = Math.max(qualifyingEnd, end + options.breakSeconds)
+    duration = Math.max(duration, end)
+  }
+
+  return { matches, qualifyingEnd, duration }
+}
+
+const emptyStats = (): RawStats => ({
+  place: 0, matches: 0, won: 0, lost: 0, draws: 0, goals: 0, goals_in: 0, goal_diff: 0, points: 0,
+})
+
+// The recording does not say how many points a win is worth, so derive it from the final table
+const inferPoints = (standings: RawStanding[]) => {
+  const winner = standings.find((s) => s.stats.won > 0 && s.stats.draws === 0)
+  const win = winner ? winner.stats.points / winner.stats.won : 2
+  const drawer = standings.find((s) => s.stats.draws > 0)
+  const draw = drawer ? (drawer.stats.points - drawer.stats.won * win) / drawer.stats.draws : win / 2
+  return { win, draw }
+}
+
+// Recompute the group table from the matches finished so far
+const computeStandings = (group: RawGroup, finished: RawMatch[]): RawStanding[] => {
+  const recorded = group.standings ?? []
+  const points = inferPoints(recorded)
+  const stats = new Map(recorded.map((s) => [s._id, emptyStats()]))
+  const recordedOrder = new Map(recorded.map((s, index) => [s._id, index]))
+
+  for (const match of finished) {
+    const [goals1, goals2] = match.result ?? [0, 0]
+    const sides: [RawTeam | null, number, number][] = [[match.team1, goals1, goals2], [match.team2, goals2, goals1]]
+    for (const [team, own, other] of sides) {
+      const s = team?._id ? stats.get(team._id) : undefined
+      if (!s) continue
+      s.matches++
+      s.goals += own
+      s.goals_in += other
+      s.goal_diff = s.goals - s.goals_in
+      if (own > other) {
+        s.won++
+        s.points += points.win
+      } else if (own < other) {
+        s.lost++
+      } else {
+        s.draws++
+        s.points += points.draw
+      }
+    }
+  }
+
+  return recorded
+    .map((standing) => ({ ...standing, stats: stats.get(standing._id)! }))
+    .sort((a, b) =>
+      b.stats.points - a.stats.points ||
+      b.stats.goal_diff - a.stats.goal_diff ||
+      b.stats.goals - a.stats.goals ||
+      // Fall back to the recorded final order for remaining ties
+      recordedOrder.get(a._id)! - recordedOrder.get(b._id)!
+    )
+    .map((standing, index) => ({ ...standing, stats: { ...standing.stats, place: index + 1 } }))
+}
+
+export const snapshotAt = (
+  recorded: RawTournament,
+  schedule: ReplaySchedule,
+  elapsed: number,
+  startedAt: number,
+): RawTournament => {
+  const tournament: RawTournament = structuredClone(recorded)
+  const refs = collectMatches(tournament)
+  const hasEnded = (match: RawMatch) => {
+    const entry = schedule.matches.get(match._id)
+    return !!entry && elapsed >= entry.end
+  }
+  const qualifyingDone = elapsed >= schedule.qualifyingEnd
+
+  // A KO slot is filled once the team's previous KO match (if any) has ended
+  const teamKnown = (match: RawMatch, team: RawTeam | null) => {
+    if (!team?._id || !qualifyingDone) return false
+    const start = schedule.matches.get(match._id)?.start ?? Infinity
+    return refs.every(({ match: other, phase }) =>
+      phase !== 'elimination' ||
+      other === match ||
+      !teamIds(other).includes(team._id!) ||
+      (schedule.matches.get(other._id)?.start ?? Infinity) > start ||
+      hasEnded(other)
+    )
+  }
+
+  for (const { match, phase } of refs) {
+    const entry = schedule.matches.get(match._id)
+    if (!entry) continue
+    if (elapsed >= entry.end) {
+      match.valid = true
+      match.timeEnd = startedAt + entry.end * 1000
+      match.tables = [entry.table]
+      continue
+    }
+    if (phase === 'elimination') {
+      if (!teamKnown(match, match.team1)) match.team1 = null
+      if (!teamKnown(match, match.team2)) match.team2 = null
+    }
+    match.valid = false
+    match.result = null
+    match.timeEnd = null
+    match.tables = elapsed >= entry.start ? [entry.table] : null
+  }
+
+  for (const group of tournament.qualifying ?? []) {
+    const finished = [...roundsOf(group.rounds), ...roundsOf(group.levels)]
+      .flatMap(matchesOf)
+      .filter((match) => match.valid)
+    group.standings = computeStandings(group, finished)
+  }
+
+  for (const elimination of tournament.eliminations ?? []) {
+    const all = [...roundsOf(elimination.levels), ...roundsOf(elimination.leftLevels), ...(elimination.third ? [elimination.third] : [])]
+      .flatMap(matchesOf)
+    elimination.finished = all.length > 0 && all.every((match) => match.valid)
+    if (!elimination.finished) elimination.standings = []
+  }
+
+  return tournament
+}
@@ -0,0 +1,183 @@
+// Production server for the beamer laptop: serves the built app from dist/ and
+// forwards /api/kickertool/* to the Kickertool live API, like the Vite dev proxy does.
+// Also hosts the WebSocket relay for the remote control on /remote.
+// Runs on plain Node.js (>= 18) without dependencies: `npm run build && npm start`
+
+import { createServer } from 'node:http'
+import { readFile, stat } from 'node:fs/promises'
+import { extname, join, normalize, resolve, sep } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createRemoteRelay, REMOTE_RELAY_PATH } from './remoteRelay.js'
+
+const PORT = Number(process.env.PORT) || 8080
+const HOST = process.env.HOST || '0.0.0.0'
+const KICKERTOOL_URL = (process.env.KICKERTOOL_URL || 'https://live.kickertool.de/api/table_soccer').replace(/\/$/, '')
+const DIST_DIR = resolve(process.env.DIST_DIR || fileURLToPath(new URL('../dist', import.meta.url)))
+const API_PREFIX = '/api/kickertool'
+
+// Seconds a Kickertool response may be reused - several screens polling share one upstream request
+const CACHE_SECONDS = {
+  pages: Number(process.env.CACHE_PAGES_SECONDS) || 60,
+  tournaments: Number(process.env.CACHE_TOURNAMENTS_SECONDS) || 3,
+}
+
+// How long an old response is served when Kickertool is not reachable
+const STALE_SECONDS = Number(process.env.CACHE_STALE_SECONDS) || 600
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.mp3': 'audio/mpeg',
+}
+
+/** @type {Map<string, { body: Buffer, contentType: string, etag: string | null, lastModified: string | null, fetchedAt: number }>} */
+const apiCache = new Map()
+
+const log = (...args) => console.log(new Date().toISOString(), ...args)
+
+const send = (res, status, headers, body) => {
+  res.writeHead(status, headers)
+  res.end(body)
+}
+
+// --- Kickertool proxy ---
+
+const apiCacheControl = (maxAge) => `public, max-age=${maxAge}, stale-while-revalidate=${maxAge * 10}`
+
+const sendApiEntry = (req, res, entry, maxAge, cacheState) => {
+  const headers = {
+    'Content-Type': entry.contentType,
+    'Cache-Control': apiCacheControl(maxAge),
+    'X-Cache': cacheState,
+  }
+  if (entry.etag) headers.ETag = entry.etag
+  if (entry.lastModified) headers['Last-Modified'] = entry.lastModified
+
+  if (entry.etag && req.headers['if-none-match'] === entry.etag) {
+    return send(res, 304, headers)
+  }
+  send(res, 200, headers, req.method === 'HEAD' ? undefined : entry.body)
+}
+
+const handleApi = async (req, res, path) => {
+  const kind = path.startsWith('/pages/') ? 'pages' : path.startsWith('/tournaments/') ? 'tournaments' : null
+  if (!kind || !/^\/[\w-]+\/[\w-]+\.json$/.test(path)) {
+    return send(res, 404, { 'Content-Type': 'application/json' }, JSON.stringify({ error: 'not found' }))
+  }
+
+  const maxAge = CACHE_SECONDS[kind]
+  const cached = apiCache.get(path)
+  const age = cached ? (Date.now() - cached.fetchedAt) / 1000 : Infinity
+  if (cached && age < maxAge) {
+    return sendApiEntry(req, res, cached, maxAge, 'HIT')
+  }
+
+  try {
+    const upstreamHeaders = { Accept: 'application/json' }
+    if (cached?.etag) upstreamHeaders['If-None-Match'] = cached.etag
+    const upstream = await fetch(`${KICKERTOOL_URL}${path}`, {
+      headers: upstreamHeaders,
+      signal: AbortSignal.timeout(8000),
+    })
+
+    if (upstream.status === 304 && cached) {
+      cached.fetchedAt = Date.now()
+      return sendApiEntry(req, res, cached, maxAge, 'REVALIDATED')
+    }
+    if (!upstream.ok) {
+      // Pass client errors (e.g. unknown tournament) through, fall back to stale data otherwise
+      if (upstream.status < 500 || !cached) {
+        return send(res, upstream.status, { 'Content-Type': 'application/json' }, JSON.stringify({ error: `upstream ${upstream.status}` }))
+      }
+      throw new Error(`upstream responded with ${upstream.status}`)
+    }
+
+    const entry = {
+      body: Buffer.from(await upstream.arrayBuffer()),
+      contentType: upstream.headers.get('content-type') || 'application/json; charset=utf-8',
+      etag: upstream.headers.get('etag'),
+      lastModified: upstream.headers.get('last-modified'),
+      fetchedAt: Date.now(),
+    }
+    apiCache.set(path, entry)
+    sendApiEntry(req, res, entry, maxAge, 'MISS')
+  } catch (err) {
+    if (cached && age < STALE_SECONDS) {
+      log(`Kickertool not reachable for ${path}, serving ${Math.round(age)}s old data:`, err.message)
+      return sendApiEntry(req, res, cached, 0, 'STALE')
+    }
+    log(`Kickertool not reachable for ${path}:`, err.message)
+    send(res, 502, { 'Content-Type': 'application/json' }, JSON.stringify({ error: 'Kickertool not reachable' }))
+  }
+}
+
+// --- Static files ---
+
+const readStatic = async (path) => {
+  const file = normalize(join(DIST_DIR, decodeURIComponent(path)))
+  if (file !== DIST_DIR && !file.startsWith(DIST_DIR + sep)) return null
+  try {
+    const info = await stat(file)
+    if (!info.isFile()) return null
+    return { file, body: await readFile(file) }
+  } catch {
+    return null
+  }
+}
+
+const handleStatic = async (req, res, path) => {
+  let found = path !== '/' ? await readStatic(path) : null
+  // Unknown routes without a file extension get the app (client side routes)
+  if (!found && (path === '/' || !extname(path))) {
+    found = await readStatic('/index.html')
+  }
+  if (!found) {
+    return send(res, 404, { 'Content-Type': 'text/plain; charset=utf-8' }, 'Not found')
+  }
+
+  // Vite puts content hashes into the asset file names, so they never change
+  const immutable = path.startsWith('/assets/')
+  send(res, 200, {
+    'Content-Type': MIME_TYPES[extname(found.file).toLowerCase()] || 'application/octet-stream',
+    'Cache-Control': immutable ? 'public, max-age=31536000, immutable' : 'no-cache',
+  }, req.method === 'HEAD' ? undefined : found.body)
+}
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost')
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return send(res, 405, { Allow: 'GET, HEAD' })
+  }
+  try {
+    if (pathname.startsWith(`${API_PREFIX}/`)) {
+      await handleApi(req, res, pathname.slice(API_PREFIX.length))
+    } else {
+      await handleStatic(req, res, pathname)
+    }
+  } catch (err) {
+    log('Error handling', pathname, err)
+    if (!res.headersSent) send(res, 500, { 'Content-Type': 'text/plain; charset=utf-8' }, 'Internal server error')
+  }
+})
+
+// --- Remote control relay ---
+
+const remoteRelay = createRemoteRelay(log)
+
+server.on('upgrade', (req, socket) => {
+  if (!remoteRelay.handleUpgrade(req, socket)) socket.destroy()
+})
+
+server.listen(PORT, HOST, () => {
+  log(`Kickerturnier running on http://${HOST === '0.0.0.0' ? 'localhost' : HOST}:${PORT}`)
+  log(`Serving ${DIST_DIR}, proxying ${API_PREFIX} to ${KICKERTOOL_URL}`)
+  log(`Remote control on /remote, relay on ${REMOTE_RELAY_PATH}`)
+})
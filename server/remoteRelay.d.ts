@@ -0,0 +1,13 @@
+// Types for the plain JS relay, so vite.config.ts can import it
+
+import type { IncomingMessage } from 'node:http'
+import type { Duplex } from 'node:stream'
+import type { Plugin } from 'vite'
+
+export declare const REMOTE_RELAY_PATH: string
+
+export declare const createRemoteRelay: (log?: (...args: unknown[]) => void) => {
+  handleUpgrade: (req: IncomingMessage, socket: Duplex) => boolean
+}
+
+export declare const remoteRelayPlugin: () => Plugin
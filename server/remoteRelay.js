@@ -0,0 +1,217 @@
+// WebSocket relay between the beamer display and remote controls (e.g. a phone on /remote).
+// Clients are paired by a token: the display makes one up and shows it in its /remote link,
+// and every message is only forwarded to the other clients with the same token. The last
+// display state is kept per token so a controller that connects later sees it right away.
+// Only pages of this server may connect (Origin check), so other web sites opened in a
+// browser on the network cannot reach the relay.
+// Plain Node.js without dependencies - used by server/index.js and the Vite dev/preview server.
+
+import { createHash } from 'node:crypto'
+
+export const REMOTE_RELAY_PATH = '/remote-relay'
+
+// Same as REMOTE_TOKEN_PATTERN in src/remote.ts
+const TOKEN_PATTERN = /^[\w-]{16,128}$/
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const MAX_MESSAGE_BYTES = 64 * 1024
+const PING_INTERVAL = 30 * 1000
+
+const OPCODE_TEXT = 0x1
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+// Unmasked frame from the server to a client
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10)
+  header[0] = 0x80 | opcode
+  if (length < 126) {
+    header[1] = length
+  } else if (length < 65536) {
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+// Next complete (masked) client frame in `buffer`, or null while it is incomplete
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null
+  const fin = (buffer[0] & 0x80) !== 0
+  const opcode = buffer[0] & 0x0f
+  const masked = (buffer[1] & 0x80) !== 0
+  let length = buffer[1] & 0x7f
+  let offset = 2
+
+  if (length === 126) {
+    if (buffer.length < 4) return null
+    length = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (length === 127) {
+    if (buffer.length < 10) return null
+    length = Number(buffer.readBigUInt64BE(2))
+    offset = 10
+  }
+  if (length > MAX_MESSAGE_BYTES) return { error: 'message too big' }
+  if (!masked) return { error: 'client frames must be masked' }
+  if (buffer.length < offset + 4 + length) return null
+
+  const mask = buffer.subarray(offset, offset + 4)
+  const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length))
+  for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+  return { fin, opcode, payload, size: offset + 4 + length }
+}
+
+// Browsers always send the Origin of the page that opens a WebSocket; it has to be this server
+const isSameOrigin = (origin, host) => {
+  if (typeof origin !== 'string' || typeof host !== 'string') return false
+  try {
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+const reject = (socket, status) => socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`)
+
+export const createRemoteRelay = (log = () => {}) => {
+  /** @typedef {{ clients: Set<Client>, lastState: string | null }} Room */
+  /** @typedef {{ socket: import('node:net').Socket, alive: boolean, token: string, room: Room }} Client */
+  /** @type {Set<Client>} */
+  const clients = new Set()
+  /** @type {Map<string, Room>} Clients and last state by token */
+  const rooms = new Map()
+  /** @type {ReturnType<typeof setInterval> | null} */
+  let pingTimer = null
+
+  const sendText = (client, text) => {
+    if (!client.socket.destroyed) client.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)))
+  }
+
+  const drop = (client, graceful = false) => {
+    if (!clients.delete(client)) return
+    if (!graceful) client.socket.destroy()
+    client.room.clients.delete(client)
+    if (client.room.clients.size === 0) rooms.delete(client.token)
+    if (clients.size === 0 && pingTimer) {
+      clearInterval(pingTimer)
+      pingTimer = null
+    }
+  }
+
+  const handleMessage = (client, text) => {
+    let message
+    try {
+      message = JSON.parse(text)
+    } catch {
+      return
+    }
+    if (!message || typeof message.type !== 'string') return
+    if (message.type === 'state') client.room.lastState = text
+    client.room.clients.forEach((other) => {
+      if (other !== client) sendText(other, text)
+    })
+  }
+
+  // Phones go to sleep without closing the connection - drop clients that stop answering
+  const startPinging = () => {
+    if (pingTimer) return
+    pingTimer = setInterval(() => {
+      clients.forEach((client) => {
+        if (!client.alive) return drop(client)
+        client.alive = false
+        client.socket.write(encodeFrame(OPCODE_PING))
+      })
+    }, PING_INTERVAL)
+  }
+
+  // Handler for the `upgrade` event of a Node.js HTTP server. Returns false for
+  // requests that are not for the relay, so other WebSockets (Vite HMR) keep working.
+  const handleUpgrade = (req, socket) => {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost')
+    if (pathname !== REMOTE_RELAY_PATH) return false
+
+    const key = req.headers['sec-websocket-key']
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      reject(socket, '400 Bad Request')
+      return true
+    }
+    const token = searchParams.get('token')
+    if (!token || !TOKEN_PATTERN.test(token) || !isSameOrigin(req.headers.origin, req.headers.host)) {
+      log('Rejected remote client from', req.headers.origin || 'unknown origin')
+      reject(socket, '403 Forbidden')
+      return true
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'))
+    socket.setNoDelay(true)
+
+    if (!rooms.has(token)) rooms.set(token, { clients: new Set(), lastState: null })
+    const room = rooms.get(token)
+    const client = { socket, alive: true, token, room }
+    clients.add(client)
+    room.clients.add(client)
+    startPinging()
+    log(`Remote client connected (${clients.size} connected)`)
+    if (room.lastState) sendText(client, room.lastState)
+
+    let buffer = Buffer.alloc(0)
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk])
+      let frame
+      while ((frame = decodeFrame(buffer))) {
+        if (frame.error) {
+          log('Dropping remote client:', frame.error)
+          return drop(client)
+        }
+        buffer = buffer.subarray(frame.size)
+        client.alive = true
+
+        if (frame.opcode === OPCODE_TEXT && frame.fin) {
+          handleMessage(client, frame.payload.toString('utf-8'))
+        } else if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload))
+        } else if (frame.opcode === OPCODE_CLOSE) {
+          socket.end(encodeFrame(OPCODE_CLOSE))
+          return drop(client, true)
+        } else if (frame.opcode !== OPCODE_PONG) {
+          // The messages are small JSON objects, fragmented or binary frames are not expected
+          return drop(client)
+        }
+      }
+    })
+    socket.on('close', () => {
+      drop(client)
+      log(`Remote client disconnected (${clients.size} connected)`)
+    })
+    socket.on('error', () => drop(client))
+    return true
+  }
+
+  return { handleUpgrade }
+}
+
+// Vite plugin that attaches the relay to the dev and preview server
+export const remoteRelayPlugin = () => {
+  const relay = createRemoteRelay()
+  const attach = (server) => {
+    server.httpServer?.on('upgrade', relay.handleUpgrade)
+  }
+  return {
+    name: 'remote-relay',
+    configureServer: attach,
+    configurePreviewServer: attach,
+  }
+}
@@ -0,0 +1,88 @@
+import { EventEmitter } from 'node:events'
+import type { IncomingMessage } from 'node:http'
+import type { Duplex } from 'node:stream'
+import { describe, expect, it } from 'vitest'
+import { createRemoteRelay } from './remoteRelay.js'
+
+const TOKEN = '0123456789abcdef0123456789abcdef'
+const HOST = '192.168.0.10:8080'
+
+// Socket stand-in that records what the relay writes
+class FakeSocket extends EventEmitter {
+  written: Buffer[] = []
+  ended: string | null = null
+  destroyed = false
+
+  write(chunk: Buffer | string) {
+    this.written.push(Buffer.from(chunk))
+    return true
+  }
+
+  end(chunk: Buffer | string) {
+    this.ended = chunk.toString()
+  }
+
+  destroy() {
+    this.destroyed = true
+  }
+
+  setNoDelay() {}
+
+  // Text of the (short, unmasked) frames after the handshake
+  texts() {
+    return this.written.slice(1).map((frame) => frame.subarray(2).toString('utf-8'))
+  }
+}
+
+const upgrade = (relay: ReturnType<typeof createRemoteRelay>, url: string, origin = `http://${HOST}`) => {
+  const socket = new FakeSocket()
+  const req = {
+    url,
+    headers: { host: HOST, origin, upgrade: 'websocket', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' },
+  } as unknown as IncomingMessage
+  relay.handleUpgrade(req, socket as unknown as Duplex)
+  return socket
+}
+
+// Masked text frame as a browser sends it
+const sendText = (socket: FakeSocket, text: string) => {
+  const payload = Buffer.from(text)
+  const mask = Buffer.from([1, 2, 3, 4])
+  const masked = payload.map((byte, i) => byte ^ mask[i % 4])
+  socket.emit('data', Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]))
+}
+
+describe('createRemoteRelay', () => {
+  it('refuses connections without a valid token', () => {
+    const relay = createRemoteRelay()
+    expect(upgrade(relay, '/remote-relay').ended).toMatch(/^HTTP\/1\.1 403/)
+    expect(upgrade(relay, '/remote-relay?token=short').ended).toMatch(/^HTTP\/1\.1 403/)
+  })
+
+  it('refuses connections from pages of another origin', () => {
+    const relay = createRemoteRelay()
+    expect(upgrade(relay, `/remote-relay?token=${TOKEN}`, 'http://evil.example').ended).toMatch(/^HTTP\/1\.1 403/)
+    expect(upgrade(relay, `/remote-relay?token=${TOKEN}`, '').ended).toMatch(/^HTTP\/1\.1 403/)
+  })
+
+  it('only forwards messages between clients with the same token', () => {
+    const relay = createRemoteRelay()
+    const display = upgrade(relay, `/remote-relay?token=${TOKEN}`)
+    const phone = upgrade(relay, `/remote-relay?token=${TOKEN}`)
+    const stranger = upgrade(relay, `/remote-relay?token=${'x'.repeat(32)}`)
+    expect(display.written[0].toString()).toMatch(/^HTTP\/1\.1 101/)
+
+    const state = JSON.stringify({ type: 'state', state: {} })
+    sendText(display, state)
+    sendText(stranger, JSON.stringify({ type: 'command', command: { action: 'toggleTimer' } }))
+    const latePhone = upgrade(relay, `/remote-relay?token=${TOKEN}`)
+
+    expect(phone.texts()).toEqual([state])
+    expect(latePhone.texts()).toEqual([state])
+    expect(display.texts()).toEqual([])
+    expect(stranger.texts()).toEqual([])
+
+    // Stops the ping timer
+    ;[display, phone, stranger, latePhone].forEach((socket) => socket.emit('close'))
+  })
+})
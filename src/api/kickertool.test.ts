@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { pollTournament, INITIAL_POLL_STATE, KickertoolApiError } from './kickertool'
+import { readFixture } from '../../mock/readFixture'
+
+const TOURNAMENT_ID = '6840b2c1e4b0a1f2c3d4e5f6'
+const BODY = JSON.stringify(readFixture('tournaments', TOURNAMENT_ID))
+
+// Answers every request with the given responses in turn
+const mockFetch = (...responses: Response[]) => {
+  const fetch = vi.fn<typeof globalThis.fetch>()
+  responses.forEach((response) => fetch.mockResolvedValueOnce(response))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+const requestHeaders = (fetch: ReturnType<typeof mockFetch>, call: number) =>
+  new Headers(fetch.mock.calls[call][1]?.headers)
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('pollTournament', () => {
+  it('parses the first response and remembers its ETag and body', async () => {
+    const fetch = mockFetch(new Response(BODY, { headers: { ETag: '"v1"' } }))
+    const result = await pollTournament(TOURNAMENT_ID, INITIAL_POLL_STATE)
+
+    expect(requestHeaders(fetch, 0).has('If-None-Match')).toBe(false)
+    expect(result.changed).toBe(true)
+    expect(result.changed && result.data.name).toBe('EIT Kickerturnier SS 25')
+    expect(result.state).toEqual({ etag: '"v1"', body: BODY })
+  })
+
+  it('keeps the previous state on 304 Not Modified', async () => {
+    const fetch = mockFetch(new Response(null, { status: 304 }))
+    const previous = { etag: '"v1"', body: BODY }
+    const result = await pollTournament(TOURNAMENT_ID, previous)
+
+    expect(requestHeaders(fetch, 0).get('If-None-Match')).toBe('"v1"')
+    expect(result).toEqual({ changed: false, state: previous })
+  })
+
+  it('reports no change when the body is the same as before', async () => {
+    mockFetch(new Response(BODY))
+    const result = await pollTournament(TOURNAMENT_ID, { etag: null, body: BODY })
+
+    expect(result).toEqual({ changed: false, state: { etag: null, body: BODY } })
+  })
+
+  it('parses a changed body', async () => {
+    const changed = BODY.replace('EIT Kickerturnier SS 25', 'EIT Kickerturnier SS 26')
+    mockFetch(new Response(changed))
+    const result = await pollTournament(TOURNAMENT_ID, { etag: null, body: BODY })
+
+    expect(result.changed && result.data.name).toBe('EIT Kickerturnier SS 26')
+    expect(result.state.body).toBe(changed)
+  })
+
+  it('fails on 304 without a previous body to fall back to', async () => {
+    mockFetch(new Response(null, { status: 304 }))
+    await expect(pollTournament(TOURNAMENT_ID, INITIAL_POLL_STATE)).rejects.toBeInstanceOf(KickertoolApiError)
+  })
+})
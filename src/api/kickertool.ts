@@ -0,0 +1,109 @@
+// Kickertool API client - fetches and validates page and tournament data
+
+import { parsePageData, parseTournamentData, KickertoolSchemaError } from './schema'
+import type { PageData, TournamentData } from './types'
+
+export { KickertoolSchemaError }
+
+// Proxied to https://live.kickertool.de/api/table_soccer (see vite.config.ts and server/index.js),
+// set VITE_KICKERTOOL_API_BASE at build time to use a proxy on another host
+export const API_BASE = (import.meta.env.VITE_KICKERTOOL_API_BASE || '/api/kickertool').replace(/\/$/, '')
+
+export class KickertoolApiError extends Error {
+  status: number | null
+
+  constructor(message: string, status: number | null = null) {
+    super(message)
+    this.name = 'KickertoolApiError'
+    this.status = status
+  }
+}
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError'
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<unknown> => {
+  let response: Response
+  try {
+    response = await fetch(url, init)
+  } catch (err) {
+    if (isAbortError(err)) throw err
+    throw new KickertoolApiError(`Network error while fetching ${url}: ${err instanceof Error ? err.message : err}`)
+  }
+  if (!response.ok) {
+    throw new KickertoolApiError(`Request to ${url} failed with status ${response.status}`, response.status)
+  }
+  try {
+    return await response.json()
+  } catch {
+    throw new KickertoolApiError(`Response from ${url} is not valid JSON`, response.status)
+  }
+}
+
+export const fetchPage = async (pageSlug: string, init?: RequestInit): Promise<PageData> => {
+  const json = await fetchJson(`${API_BASE}/pages/${encodeURIComponent(pageSlug)}.json`, init)
+  return parsePageData(json)
+}
+
+export const fetchTournament = async (tournamentId: string, init?: RequestInit): Promise<TournamentData> => {
+  const json = await fetchJson(`${API_BASE}/tournaments/${encodeURIComponent(tournamentId)}.json`, init)
+  return parseTournamentData(json)
+}
+
+// What the previous poll saw, used to skip unchanged responses
+export interface PollState {
+  etag: string | null
+  body: string | null
+}
+
+export type PollResult =
+  | { changed: true; data: TournamentData; state: PollState }
+  | { changed: false; state: PollState }
+
+export const INITIAL_POLL_STATE: PollState = { etag: null, body: null }
+
+// Conditional tournament request: sends If-None-Match when the server gave us an ETag and
+// falls back to comparing the body, so unchanged data neither re-parses nor re-renders
+export const pollTournament = async (tournamentId: string, previous: PollState, init?: RequestInit): Promise<PollResult> => {
+  const url = `${API_BASE}/tournaments/${encodeURIComponent(tournamentId)}.json`
+  const headers = new Headers(init?.headers)
+  if (previous.etag) headers.set('If-None-Match', previous.etag)
+
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, headers })
+  } catch (err) {
+    if (isAbortError(err)) throw err
+    throw new KickertoolApiError(`Network error while fetching ${url}: ${err instanceof Error ? err.message : err}`)
+  }
+  if (response.status === 304 && previous.body !== null) {
+    return { changed: false, state: previous }
+  }
+  if (!response.ok) {
+    throw new KickertoolApiError(`Request to ${url} failed with status ${response.status}`, response.status)
+  }
+
+  const body = await response.text()
+  const state = { etag: response.headers.get('ETag'), body }
+  if (body === previous.body) {
+    return { changed: false, state }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    throw new KickertoolApiError(`Response from ${url} is not valid JSON`, response.status)
+  }
+  return { changed: true, data: parseTournamentData(json), state }
+}
+
+// German message for the UI, distinguishing schema drift from connection problems
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof KickertoolSchemaError) {
+    return `Unerwartetes Datenformat von Kickertool (${err.path}) - bitte App aktualisieren`
+  }
+  if (err instanceof KickertoolApiError && err.status === 404) {
+    return `${fallback} (nicht gefunden)`
+  }
+  return fallback
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { parsePageData, parseTournamentData, KickertoolSchemaError } from './schema'
+import { readFixture } from '../../mock/readFixture'
+
+const TOURNAMENT_ID = '6740b2c1e4b0a1f2c3d4e5f6'
+
+type Key = string | number
+
+// A copy of a recorded response with the value at path replaced
+const withValue = (kind: 'pages' | 'tournaments', name: string, path: Key[], value: unknown): unknown => {
+  const copy = structuredClone(readFixture(kind, name))
+  let target = copy as Record<Key, unknown>
+  path.slice(0, -1).forEach((key) => {
+    target = target[key] as Record<Key, unknown>
+  })
+  target[path[path.length - 1]] = value
+  return copy
+}
+
+const tournamentWith = (path: Key[], value: unknown) => withValue('tournaments', TOURNAMENT_ID, path, value)
+
+const schemaErrorPath = (parse: () => unknown): string | null => {
+  try {
+    parse()
+  } catch (err) {
+    expect(err).toBeInstanceOf(KickertoolSchemaError)
+    return (err as KickertoolSchemaError).path
+  }
+  return null
+}
+
+describe('parseTournamentData', () => {
+  it('parses the recorded tournaments', () => {
+    ['6740b2c1e4b0a1f2c3d4e5f6', '6840b2c1e4b0a1f2c3d4e5f6', '6940b2c1e4b0a1f2c3d4e5f6'].forEach((id) => {
+      const data = parseTournamentData(readFixture('tournaments', id))
+      expect(data._id).toBe(id)
+      expect(data.name).not.toBe('')
+      expect(data.eliminations.length).toBeGreaterThan(0)
+    })
+  })
+
+  it('normalises null tables to an empty list', () => {
+    const data = parseTournamentData(tournamentWith(['qualifying', 0, 'rounds', 0, 'matches', 0, 'tables'], null))
+    expect(data.qualifying[0].rounds[0].matches[0].tables).toEqual([])
+  })
+
+  it('normalises missing rounds and levels to empty lists', () => {
+    // The recording has "levels": null for its group
+    expect(parseTournamentData(readFixture('tournaments', TOURNAMENT_ID)).qualifying[0].levels).toEqual([])
+    expect(parseTournamentData(tournamentWith(['qualifying', 0, 'rounds'], null)).qualifying[0].rounds).toEqual([])
+    expect(parseTournamentData(tournamentWith(['eliminations', 0, 'leftLevels'], undefined)).eliminations[0].leftLevels).toEqual([])
+  })
+
+  it('throws a schema error with the path of a required field of the wrong type', () => {
+    const name = tournamentWith(['qualifying', 0, 'standings', 1, 'name'], 42)
+    expect(schemaErrorPath(() => parseTournamentData(name))).toBe('tournament.qualifying[0].standings[1].name')
+
+    const id = tournamentWith(['eliminations', 0, 'levels', 0, 'matches', 2, '_id'], null)
+    expect(schemaErrorPath(() => parseTournamentData(id))).toBe('tournament.eliminations[0].levels[0].matches[2]._id')
+  })
+
+  it('rejects a response that is not an object', () => {
+    expect(schemaErrorPath(() => parseTournamentData([]))).toBe('tournament')
+  })
+})
+
+describe('parsePageData', () => {
+  it('parses the recorded page', () => {
+    const page = parsePageData(readFixture('pages', 'fseithka'))
+    expect(page.name).toBe('Fachschaft EIT HKA')
+    expect(page.tournaments.map((t) => t._id)).toEqual(['6740b2c1e4b0a1f2c3d4e5f6', '6840b2c1e4b0a1f2c3d4e5f6', '6940b2c1e4b0a1f2c3d4e5f6'])
+    expect(page.tournaments[1].numParticipants).toBe(12)
+  })
+
+  it('throws a schema error with the path of a tournament of the wrong type', () => {
+    const raw = withValue('pages', 'fseithka', ['tournaments', 1, 'numParticipants'], '12')
+    expect(schemaErrorPath(() => parsePageData(raw))).toBe('page.tournaments[1].numParticipants')
+  })
+})
@@ -0,0 +1,200 @@
+// Runtime validation and normalisation of Kickertool API responses.
+// Required fields are checked strictly so schema drift surfaces as a KickertoolSchemaError,
+// optional fields (tables, rounds, levels, ...) are normalised to safe defaults.
+
+import type {
+  TeamStats,
+  Standing,
+  Table,
+  MatchTeam,
+  Match,
+  Round,
+  EliminationGroup,
+  Group,
+  TournamentData,
+  TournamentInfo,
+  PageData,
+} from './types'
+
+export class KickertoolSchemaError extends Error {
+  path: string
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Invalid Kickertool data at ${path}: expected ${expected}, got ${describe(received)}`)
+    this.name = 'KickertoolSchemaError'
+    this.path = path
+  }
+}
+
+type JsonObject = Record<string, unknown>
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const isMissing = (value: unknown): value is null | undefined => value === null || value === undefined
+
+const expectObject = (value: unknown, path: string): JsonObject => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new KickertoolSchemaError(path, 'object', value)
+  }
+  return value as JsonObject
+}
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw new KickertoolSchemaError(path, 'string', value)
+  return value
+}
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new KickertoolSchemaError(path, 'number', value)
+  return value
+}
+
+const optionalString = (value: unknown, path: string, fallback = ''): string =>
+  isMissing(value) ? fallback : expectString(value, path)
+
+const optionalNumber = (value: unknown, path: string, fallback = 0): number =>
+  isMissing(value) ? fallback : expectNumber(value, path)
+
+const optionalBoolean = (value: unknown, path: string, fallback = false): boolean => {
+  if (isMissing(value)) return fallback
+  if (typeof value !== 'boolean') throw new KickertoolSchemaError(path, 'boolean', value)
+  return value
+}
+
+// Missing arrays (null/undefined) become empty arrays, anything else must be an array
+const optionalArray = <T>(value: unknown, path: string, parseItem: (item: unknown, path: string) => T): T[] => {
+  if (isMissing(value)) return []
+  if (!Array.isArray(value)) throw new KickertoolSchemaError(path, 'array', value)
+  return value.map((item, index) => parseItem(item, `${path}[${index}]`))
+}
+
+const parseTeamStats = (value: unknown, path: string): TeamStats => {
+  const obj = isMissing(value) ? {} : expectObject(value, path)
+  const goals = optionalNumber(obj.goals, `${path}.goals`)
+  const goalsIn = optionalNumber(obj.goals_in, `${path}.goals_in`)
+  return {
+    place: optionalNumber(obj.place, `${path}.place`),
+    matches: optionalNumber(obj.matches, `${path}.matches`),
+    won: optionalNumber(obj.won, `${path}.won`),
+    lost: optionalNumber(obj.lost, `${path}.lost`),
+    draws: optionalNumber(obj.draws, `${path}.draws`),
+    goals,
+    goals_in: goalsIn,
+    goal_diff: optionalNumber(obj.goal_diff, `${path}.goal_diff`, goals - goalsIn),
+    points: optionalNumber(obj.points, `${path}.points`),
+  }
+}
+
+const parseStanding = (value: unknown, path: string): Standing => {
+  const obj = expectObject(value, path)
+  return {
+    _id: expectString(obj._id, `${path}._id`),
+    name: expectString(obj.name, `${path}.name`),
+    stats: parseTeamStats(obj.stats, `${path}.stats`),
+  }
+}
+
+const parseTable = (value: unknown, path: string): Table => {
+  const obj = expectObject(value, path)
+  return {
+    _id: expectString(obj._id, `${path}._id`),
+    name: String(obj.name ?? ''),
+  }
+}
+
+// Teams are null or nameless until the previous KO round is decided
+const parseMatchTeam = (value: unknown, path: string): MatchTeam => {
+  if (isMissing(value)) return { name: '' }
+  const obj = expectObject(value, path)
+  const team: MatchTeam = { name: optionalString(obj.name, `${path}.name`) }
+  if (!isMissing(obj._id)) team._id = expectString(obj._id, `${path}._id`)
+  return team
+}
+
+const parseResult = (value: unknown, path: string): [number, number] => {
+  if (isMissing(value)) return [0, 0]
+  if (!Array.isArray(value) || value.length < 2) throw new KickertoolSchemaError(path, '[number, number]', value)
+  return [optionalNumber(value[0], `${path}[0]`), optionalNumber(value[1], `${path}[1]`)]
+}
+
+const parseMatch = (value: unknown, path: string): Match => {
+  const obj = expectObject(value, path)
+  return {
+    _id: expectString(obj._id, `${path}._id`),
+    team1: parseMatchTeam(obj.team1, `${path}.team1`),
+    team2: parseMatchTeam(obj.team2, `${path}.team2`),
+    result: parseResult(obj.result, `${path}.result`),
+    valid: optionalBoolean(obj.valid, `${path}.valid`),
+    timeEnd: isMissing(obj.timeEnd) ? null : expectNumber(obj.timeEnd, `${path}.timeEnd`),
+    tables: optionalArray(obj.tables, `${path}.tables`, parseTable),
+  }
+}
+
+const parseRound = (value: unknown, path: string): Round => {
+  const obj = expectObject(value, path)
+  return {
+    _id: expectString(obj._id, `${path}._id`),
+    name: optionalString(obj.name, `${path}.name`),
+    matches: optionalArray(obj.matches, `${path}.matches`, parseMatch),
+  }
+}
+
+const parseEliminationGroup = (value: unknown, path: string): EliminationGroup => {
+  const obj = expectObject(value, path)
+  const elimination: EliminationGroup = {
+    _id: expectString(obj._id, `${path}._id`),
+    name: optionalString(obj.name, `${path}.name`),
+    size: optionalNumber(obj.size, `${path}.size`),
+    finished: optionalBoolean(obj.finished, `${path}.finished`),
+    thirdPlace: optionalBoolean(obj.thirdPlace, `${path}.thirdPlace`),
+    double: optionalBoolean(obj.double, `${path}.double`),
+    standings: optionalArray(obj.standings, `${path}.standings`, parseStanding),
+    levels: optionalArray(obj.levels, `${path}.levels`, parseRound),
+    leftLevels: optionalArray(obj.leftLevels, `${path}.leftLevels`, parseRound),
+  }
+  if (!isMissing(obj.third)) elimination.third = parseRound(obj.third, `${path}.third`)
+  return elimination
+}
+
+const parseGroup = (value: unknown, path: string): Group => {
+  const obj = expectObject(value, path)
+  return {
+    _id: optionalString(obj._id, `${path}._id`),
+    name: optionalString(obj.name, `${path}.name`),
+    standings: optionalArray(obj.standings, `${path}.standings`, parseStanding),
+    rounds: optionalArray(obj.rounds, `${path}.rounds`, parseRound),
+    levels: optionalArray(obj.levels, `${path}.levels`, parseRound),
+  }
+}
+
+const parseTournamentInfo = (value: unknown, path: string): TournamentInfo => {
+  const obj = expectObject(value, path)
+  return {
+    _id: expectString(obj._id, `${path}._id`),
+    name: optionalString(obj.name, `${path}.name`),
+    date: optionalString(obj.date, `${path}.date`),
+    numParticipants: optionalNumber(obj.numParticipants, `${path}.numParticipants`),
+  }
+}
+
+export const parseTournamentData = (value: unknown): TournamentData => {
+  const obj = expectObject(value, 'tournament')
+  return {
+    _id: expectString(obj._id, 'tournament._id'),
+    name: optionalString(obj.name, 'tournament.name'),
+    eliminations: optionalArray(obj.eliminations, 'tournament.eliminations', parseEliminationGroup),
+    qualifying: optionalArray(obj.qualifying, 'tournament.qualifying', parseGroup),
+  }
+}
+
+export const parsePageData = (value: unknown): PageData => {
+  const obj = expectObject(value, 'page')
+  return {
+    name: optionalString(obj.name, 'page.name'),
+    tournaments: optionalArray(obj.tournaments, 'page.tournaments', parseTournamentInfo),
+  }
+}
@@ -0,0 +1,85 @@
+// Types for the Kickertool live API (after normalisation by ./schema)
+
+export interface TeamStats {
+  place: number
+  matches: number
+  won: number
+  lost: number
+  draws: number
+  goals: number
+  goals_in: number
+  goal_diff: number
+  points: number
+}
+
+export interface Standing {
+  _id: string
+  name: string
+  stats: TeamStats
+}
+
+export interface Table {
+  _id: string
+  name: string
+}
+
+export interface MatchTeam {
+  _id?: string
+  name: string  // Empty string while the team is not yet determined
+}
+
+export interface Match {
+  _id: string
+  team1: MatchTeam
+  team2: MatchTeam
+  result: [number, number]
+  valid: boolean
+  timeEnd: number | null
+  tables: Table[]  // Kickertool sends null when no table is assigned
+}
+
+export interface Round {
+  _id: string
+  name: string
+  matches: Match[]
+}
+
+export interface EliminationGroup {
+  _id: string
+  name: string
+  size: number
+  finished: boolean
+  thirdPlace: boolean
+  double: boolean
+  standings: Standing[]
+  levels: Round[]
+  leftLevels: Round[]
+  third?: Round
+}
+
+export interface Group {
+  _id: string
+  name: string  // Empty when Kickertool has no name for the group
+  standings: Standing[]
+  rounds: Round[]
+  levels: Round[]
+}
+
+export interface TournamentData {
+  _id: string
+  name: string
+  eliminations: EliminationGroup[]
+  qualifying: Group[]
+}
+
+export interface TournamentInfo {
+  _id: string
+  name: string
+  date: string
+  numParticipants: number
+}
+
+export interface PageData {
+  name: string
+  tournaments: TournamentInfo[]
+}
@@ -0,0 +1,88 @@
+import { MATCH_WIDTH, TEAM_HEIGHT, MATCH_HEIGHT } from '../utils/bracketLayout'
+import type { BracketLayout, PlacedMatch } from '../utils/bracketLayout'
+import './BracketDiagram.css'
+
+// Longest team name that fits next to the score
+const MAX_NAME_LENGTH = 24
+
+const truncate = (name: string) =>
+  name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 1)}…` : name
+
+interface DiagramMatchProps extends PlacedMatch {
+  onTeamClick?: (teamId: string) => void
+}
+
+function DiagramMatch({ match, x, y, medals, onTeamClick }: DiagramMatchProps) {
+  const teams = [match.team1, match.team2]
+  const isWinner = (side: number) => match.valid && match.result[side] > match.result[1 - side]
+  const teamClass = (side: number) => `svg-team ${isWinner(side) ? 'winner' : ''} ${medals[side]}`
+  // Keeps the team highlights inside the rounded box
+  const clipId = `match-clip-${match._id}`
+
+  return (
+    <g className={`svg-match ${match.valid ? 'completed' : 'pending'}`} transform={`translate(${x} ${y})`}>
+      <clipPath id={clipId}>
+        <rect width={MATCH_WIDTH} height={MATCH_HEIGHT} rx={8} />
+      </clipPath>
+      <rect className="svg-match-box" width={MATCH_WIDTH} height={MATCH_HEIGHT} rx={8} />
+      <g clipPath={`url(#${clipId})`}>
+        {teams.map((_, side) => (
+          <rect key={side} className={`${teamClass(side)} svg-team-bg`} y={side * TEAM_HEIGHT} width={MATCH_WIDTH} height={TEAM_HEIGHT} />
+        ))}
+      </g>
+      {teams.map((team, side) => {
+        const teamId = team.name ? team._id : undefined
+        return (
+          <g
+            key={side}
+            className={`${teamClass(side)} ${onTeamClick && teamId ? 'clickable' : ''}`}
+            transform={`translate(0 ${side * TEAM_HEIGHT})`}
+            onClick={onTeamClick && teamId ? () => onTeamClick(teamId) : undefined}
+          >
+            {onTeamClick && teamId && <rect className="svg-team-hit" width={MATCH_WIDTH} height={TEAM_HEIGHT} />}
+            <text className="svg-team-name" x={12} y={TEAM_HEIGHT / 2}>
+              {team.name ? truncate(team.name) : 'TBD'}
+              <title>{team.name || 'TBD'}</title>
+            </text>
+            {match.valid && (
+              <text className="svg-team-score" x={MATCH_WIDTH - 16} y={TEAM_HEIGHT / 2}>
+                {match.result[side]}
+              </text>
+            )}
+          </g>
+        )
+      })}
+      <line className="svg-match-divider" x1={0} x2={MATCH_WIDTH} y1={TEAM_HEIGHT} y2={TEAM_HEIGHT} />
+    </g>
+  )
+}
+
+interface BracketDiagramProps {
+  layout: BracketLayout
+  onTeamClick?: (teamId: string) => void
+}
+
+// Connected KO tree as SVG content, layout.width x layout.height in size
+function BracketDiagram({ layout, onTeamClick }: BracketDiagramProps) {
+  return (
+    <g className="bracket-svg">
+      {layout.connectors.map((connector, index) => (
+        <path
+          key={index}
+          className={`svg-connector ${connector.played ? 'played' : ''} ${connector.drop ? 'drop' : ''}`}
+          d={`M ${connector.points.map(([x, y]) => `${x} ${y}`).join(' L ')}`}
+        />
+      ))}
+      {layout.titles.map((title, index) => (
+        <text key={index} className={`svg-title ${title.variant}`} x={title.x} y={title.y}>
+          {title.text}
+        </text>
+      ))}
+      {layout.matches.map((placed) => (
+        <DiagramMatch key={placed.match._id} {...placed} onTeamClick={onTeamClick} />
+      ))}
+    </g>
+  )
+}
+
+export default BracketDiagram
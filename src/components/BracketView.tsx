@@ -0,0 +1,30 @@
+import BracketDiagram from './BracketDiagram'
+import PanZoomViewer from './PanZoomViewer'
+import { layoutBracket } from '../utils/bracketLayout'
+import type { EliminationGroup } from '../api/types'
+
+interface BracketViewProps {
+  eliminations: EliminationGroup[]
+  onTeamClick?: (teamId: string) => void
+}
+
+// KO tree per elimination: connected SVG bracket with pan and zoom
+function BracketView({ eliminations, onTeamClick }: BracketViewProps) {
+  return (
+    <div className="bracket-container">
+      {eliminations.map((elimination) => {
+        const layout = layoutBracket(elimination)
+        return (
+          <div key={elimination._id} className="elimination-bracket">
+            <h3 className="bracket-title">{elimination.name}</h3>
+            <PanZoomViewer contentWidth={layout.width} contentHeight={layout.height} fitKey={elimination._id}>
+              <BracketDiagram layout={layout} onTeamClick={onTeamClick} />
+            </PanZoomViewer>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default BracketView
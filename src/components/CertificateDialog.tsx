@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { X, Award } from 'lucide-react'
+import { exportCertificates, getCertificateTeams } from '../utils/certificates'
+import { getEliminationRanking, getFinalRanking } from '../utils/ranking'
+import { formatDate } from '../utils/format'
+import type { EliminationGroup, TournamentData, TournamentInfo } from '../api/types'
+
+interface CertificateDialogProps {
+  tournamentData: TournamentData
+  tournamentInfo: TournamentInfo | undefined
+  elimination: EliminationGroup
+  showCategory: boolean  // Name the elimination on the certificate, e.g. when there are several
+  onClose: () => void
+}
+
+// Choose the place range and print one certificate per team
+function CertificateDialog({ tournamentData, tournamentInfo, elimination, showCategory, onClose }: CertificateDialogProps) {
+  const places = getEliminationRanking(getFinalRanking(tournamentData), elimination)
+  // The podium of the elimination by default, its places come after all teams of the ones before
+  const firstPlace = places[0]?.place ?? 1
+  const [from, setFrom] = useState(String(firstPlace))
+  const [to, setTo] = useState(String(firstPlace + 2))
+  const [isExporting, setIsExporting] = useState(false)
+
+  const teams = getCertificateTeams(places, Number(from) || 1, Number(to) || 0)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setIsExporting(true)
+    try {
+      await exportCertificates({
+        tournamentName: tournamentInfo?.name || tournamentData.name,
+        date: formatDate(tournamentInfo?.date ?? ''),
+        category: showCategory && elimination.name ? elimination.name : null,
+        teams,
+      })
+      onClose()
+    } catch (error) {
+      console.error('Error exporting certificates:', error)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <form className="settings-panel certificate-dialog" onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>Urkunden{showCategory && elimination.name ? ` - ${elimination.name}` : ''}</h2>
+          <button type="button" onClick={onClose} className="settings-close" title="Schließen">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="settings-field">
+          <span className="settings-label">Plätze</span>
+          <div className="certificate-range">
+            <input
+              type="number"
+              min="1"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="settings-input"
+              aria-label="Von Platz"
+            />
+            <span>bis</span>
+            <input
+              type="number"
+              min="1"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="settings-input"
+              aria-label="Bis Platz"
+            />
+          </div>
+          <span className="settings-hint">
+            {teams.length === 0
+              ? 'Keine Teams in diesem Bereich.'
+              : `${teams.length} ${teams.length === 1 ? 'Urkunde' : 'Urkunden'}: ${teams.map((team) => `${team.place}. ${team.name}`).join(', ')}`}
+          </span>
+        </div>
+
+        <div className="settings-actions">
+          <button type="submit" className="control-btn play" disabled={teams.length === 0 || isExporting}>
+            <Award size={18} className={isExporting ? 'spinning' : ''} />
+            <span>PDF erstellen</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default CertificateDialog
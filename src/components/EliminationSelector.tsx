@@ -0,0 +1,39 @@
+import { Repeat } from 'lucide-react'
+import type { EliminationGroup } from '../api/types'
+import type { EliminationSelection } from '../hooks/useEliminationSelection'
+
+interface EliminationSelectorProps {
+  eliminations: EliminationGroup[]
+  selection: EliminationSelection
+}
+
+// Picks the elimination shown in the bracket and results views, or rotates through them
+function EliminationSelector({ eliminations, selection }: EliminationSelectorProps) {
+  const { selected, select, autoRotate, setAutoRotate } = selection
+
+  return (
+    <div className="elimination-selector">
+      <select
+        value={selected?._id ?? ''}
+        onChange={(e) => select(e.target.value)}
+        className="elimination-select"
+        title="KO-Runde auswählen"
+      >
+        {eliminations.map((elimination, index) => (
+          <option key={elimination._id} value={elimination._id}>
+            {elimination.name || `KO-Runde ${index + 1}`}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setAutoRotate(!autoRotate)}
+        className={`mode-btn ${autoRotate ? 'active' : ''}`}
+        title={autoRotate ? 'Automatischen Wechsel beenden' : 'KO-Runden automatisch wechseln'}
+      >
+        <Repeat size={16} />
+      </button>
+    </div>
+  )
+}
+
+export default EliminationSelector
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download, FileText, Table, Braces, Globe } from 'lucide-react'
+import { exportToPDF } from '../utils/pdfExport'
+import { exportCsv, exportJson } from '../utils/dataExport'
+import type { DataExportKind } from '../utils/dataExport'
+import type { EliminationGroup, TournamentData } from '../api/types'
+
+interface ExportMenuProps {
+  tournamentData: TournamentData
+  eliminations: EliminationGroup[]
+}
+
+const CSV_ITEMS: { kind: DataExportKind; label: string }[] = [
+  { kind: 'standings', label: 'Tabellen (CSV)' },
+  { kind: 'matches', label: 'Spiele (CSV)' },
+  { kind: 'placements', label: 'Platzierungen (CSV)' },
+]
+
+// Download button in the header with the PDF and the raw data exports
+function ExportMenu({ tournamentData, eliminations }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close on a click anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  // PDF and HTML embed the sponsor logo, which is loaded first
+  const handleDocument = async (run: () => Promise<void>) => {
+    setOpen(false)
+    setIsExporting(true)
+    try {
+      await run()
+    } catch (error) {
+      console.error('Error exporting:', error)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  // Loaded on demand, only this export needs the React server renderer
+  const exportHtml = async () => {
+    const { exportResultsHtml } = await import('../utils/htmlExport')
+    await exportResultsHtml(tournamentData)
+  }
+
+  const handleData = (run: () => void) => {
+    setOpen(false)
+    try {
+      run()
+    } catch (error) {
+      console.error('Error exporting data:', error)
+    }
+  }
+
+  return (
+    <div className="export-menu" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="export-btn"
+        title="Exportieren"
+        disabled={isExporting}
+      >
+        <Download size={18} className={isExporting ? 'spinning' : ''} />
+      </button>
+
+      {open && (
+        <div className="export-menu-list">
+          <button type="button" onClick={() => handleDocument(() => exportToPDF(tournamentData, eliminations))} className="export-menu-item">
+            <FileText size={16} /> PDF
+          </button>
+          <button type="button" onClick={() => handleDocument(exportHtml)} className="export-menu-item">
+            <Globe size={16} /> Ergebnisseite (HTML)
+          </button>
+          {CSV_ITEMS.map(({ kind, label }) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => handleData(() => exportCsv(tournamentData, kind))}
+              className="export-menu-item"
+            >
+              <Table size={16} /> {label}
+            </button>
+          ))}
+          <button type="button" onClick={() => handleData(() => exportJson(tournamentData))} className="export-menu-item">
+            <Braces size={16} /> Alle Daten (JSON)
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
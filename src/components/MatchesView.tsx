@@ -0,0 +1,100 @@
+import { Fragment } from 'react'
+import { Play, Clock, AlertTriangle } from 'lucide-react'
+import { getCurrentMatches, getMatchQueue } from '../utils/tournament'
+import { formatTime } from '../utils/format'
+import { DEFAULT_SETTINGS } from '../settings'
+import type { TournamentData } from '../api/types'
+import type { TableTimer, TableTimers } from '../hooks/useTableTimers'
+
+interface MatchesViewProps {
+  tournamentData: TournamentData | null
+  scene?: boolean  // Full screen kiosk scene instead of the block below the standings
+  tableTimers?: TableTimers  // Countdown per current match (optional mode)
+  queueLength?: number       // Upcoming matches to show
+}
+
+// Remaining time, or the time over with a leading plus
+const formatTableTimer = ({ remaining, overdue }: TableTimer) =>
+  overdue ? `+${formatTime(-remaining)}` : formatTime(remaining)
+
+// Matches on the tables right now and the ones coming up next
+function MatchesView({ tournamentData, scene = false, tableTimers, queueLength = DEFAULT_SETTINGS.queueLength }: MatchesViewProps) {
+  const currentMatches = getCurrentMatches(tournamentData)
+  const overdueCount = currentMatches.filter((m) => tableTimers?.[m._id]?.overdue).length
+  const upcomingMatches = getMatchQueue(tournamentData).slice(0, queueLength)
+
+  const content = (
+    <>
+      {/* Current Games */}
+      {currentMatches.length > 0 && (
+        <div className="current-games">
+          <h3>
+            <Play size={18} /> Aktuelle Spiele
+            {overdueCount > 0 && (
+              <span className="overdue-count">
+                <AlertTriangle size={14} /> {overdueCount} {overdueCount === 1 ? 'Tisch' : 'Tische'} überzogen
+              </span>
+            )}
+          </h3>
+          <div className="current-games-grid">
+            {currentMatches.map((match) => {
+              const timer = tableTimers?.[match._id]
+              return (
+                <div key={match._id} className={`current-game-card ${timer?.overdue ? 'overdue' : ''}`}>
+                  <div className="current-game-table">
+                    Tisch {match.tables[0]?.name || '?'}
+                  </div>
+                  <div className="current-game-teams">
+                    <span className="current-team">{match.team1?.name}</span>
+                    <span className="current-vs">vs</span>
+                    <span className="current-team">{match.team2?.name}</span>
+                  </div>
+                  {timer && (
+                    <div className={`current-game-timer ${timer.overdue ? 'overdue' : timer.remaining <= 60 ? 'warning' : ''}`}>
+                      {formatTableTimer(timer)}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Upcoming Matches */}
+      {upcomingMatches.length > 0 && (
+        <div className="upcoming-matches">
+          <h3><Clock size={18} /> Nächste Spiele</h3>
+          {upcomingMatches.map(({ match, roundName, nextUp }) => (
+            <div key={match._id} className={`match-card upcoming ${nextUp ? 'next-up' : ''}`}>
+              <span className="match-round">{roundName}</span>
+              <div className="match-teams">
+                {[match.team1, match.team2].map((team, i) => (
+                  <Fragment key={i}>
+                    {i === 1 && <span className="vs">vs</span>}
+                    <span className="team">
+                      {team.name}
+                      {nextUp && <span className="next-up-marker">Du bist als Nächstes dran</span>}
+                    </span>
+                  </Fragment>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+
+  if (!scene) return content
+
+  return (
+    <div className="matches-scene">
+      {currentMatches.length === 0 && upcomingMatches.length === 0 ? (
+        <div className="loading">Gerade keine offenen Spiele.</div>
+      ) : content}
+    </div>
+  )
+}
+
+export default MatchesView
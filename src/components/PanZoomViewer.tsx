@@ -0,0 +1,74 @@
+import { useEffect, useRef } from 'react'
+import type { ReactNode } from 'react'
+import { UncontrolledReactSVGPanZoom, TOOL_AUTO, ALIGN_CENTER, POSITION_NONE } from 'react-svg-pan-zoom'
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react'
+import { useElementSize } from '../hooks/useElementSize'
+
+const ZOOM_STEP = 1.25
+
+interface PanZoomViewerProps {
+  contentWidth: number
+  contentHeight: number
+  fitKey: string       // Content identity, e.g. the elimination - fits again when it changes
+  children: ReactNode  // SVG content
+}
+
+// Drag to pan, wheel or buttons to zoom. Fits the content to the available space once
+// it is first shown, when other content (fitKey) is shown and on request. Updates of
+// the same content keep the zoom and pan of the user.
+function PanZoomViewer({ contentWidth, contentHeight, fitKey, children }: PanZoomViewerProps) {
+  const [containerRef, size] = useElementSize<HTMLDivElement>()
+  const viewerRef = useRef<UncontrolledReactSVGPanZoom>(null)
+  const fittedKeyRef = useRef<string | null>(null)
+
+  const fitToScreen = () => viewerRef.current?.fitToViewer(ALIGN_CENTER, ALIGN_CENTER)
+
+  const isShown = !!size && size.width > 0 && size.height > 0
+  useEffect(() => {
+    if (!isShown || fittedKeyRef.current === fitKey) return
+    // Let the viewer pick up the sizes first
+    const frame = requestAnimationFrame(() => {
+      viewerRef.current?.fitToViewer(ALIGN_CENTER, ALIGN_CENTER)
+      fittedKeyRef.current = fitKey
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [isShown, fitKey])
+
+  return (
+    <div className="pan-zoom-viewport" ref={containerRef}>
+      {isShown && (
+        <UncontrolledReactSVGPanZoom
+          ref={viewerRef}
+          width={size.width}
+          height={size.height}
+          defaultTool={TOOL_AUTO}
+          background="transparent"
+          SVGBackground="transparent"
+          detectAutoPan={false}
+          scaleFactorMin={0.1}
+          scaleFactorMax={4}
+          toolbarProps={{ position: POSITION_NONE }}
+          miniatureProps={{ position: POSITION_NONE }}
+        >
+          <svg width={contentWidth} height={contentHeight}>
+            {children}
+          </svg>
+        </UncontrolledReactSVGPanZoom>
+      )}
+
+      <div className="pan-zoom-controls">
+        <button onClick={() => viewerRef.current?.zoomOnViewerCenter(ZOOM_STEP)} className="mode-btn" title="Vergrößern">
+          <ZoomIn size={16} />
+        </button>
+        <button onClick={() => viewerRef.current?.zoomOnViewerCenter(1 / ZOOM_STEP)} className="mode-btn" title="Verkleinern">
+          <ZoomOut size={16} />
+        </button>
+        <button onClick={fitToScreen} className="mode-btn" title="An Bildschirm anpassen">
+          <Maximize size={16} />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default PanZoomViewer
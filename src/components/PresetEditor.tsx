@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { X, Save, RotateCcw, Plus, Trash2 } from 'lucide-react'
+import { DEFAULT_PRESETS, PHASE_KINDS, PHASE_LABELS, parsePresets } from '../utils/timerFormat'
+import type { PhaseKind, TimerPreset } from '../utils/timerFormat'
+
+interface PresetEditorProps {
+  presets: TimerPreset[]
+  onSave: (presets: TimerPreset[]) => void
+  onClose: () => void
+}
+
+interface PhaseForm {
+  label: string
+  kind: PhaseKind
+  minutes: string
+  seconds: string
+  open: boolean  // No time limit (golden goal)
+}
+
+interface PresetForm {
+  id: string
+  name: string
+  phases: PhaseForm[]
+}
+
+const toPhaseForm = (label: string, kind: PhaseKind, seconds: number | null): PhaseForm => ({
+  label,
+  kind,
+  minutes: seconds === null ? '' : String(Math.floor(seconds / 60)),
+  seconds: seconds === null ? '' : String(seconds % 60),
+  open: seconds === null,
+})
+
+const toForm = (presets: TimerPreset[]): PresetForm[] =>
+  presets.map(({ id, name, phases }) => ({
+    id,
+    name,
+    phases: phases.map((p) => toPhaseForm(p.label, p.kind, p.seconds)),
+  }))
+
+// Back to presets - parsePresets drops phases without a time and presets without phases
+const fromForm = (forms: PresetForm[]): TimerPreset[] =>
+  parsePresets(forms.map(({ id, name, phases }) => ({
+    id,
+    name,
+    phases: phases.map(({ label, kind, minutes, seconds, open }) => ({
+      label,
+      kind,
+      seconds: open ? null : (parseInt(minutes) || 0) * 60 + (parseInt(seconds) || 0),
+    })),
+  }))) ?? []
+
+// Editor for the timer presets: name and phases (halves, breaks, overtime) of each format
+function PresetEditor({ presets, onSave, onClose }: PresetEditorProps) {
+  const [forms, setForms] = useState(() => toForm(presets))
+
+  const updatePreset = (index: number, patch: Partial<PresetForm>) =>
+    setForms((current) => current.map((form, i) => (i === index ? { ...form, ...patch } : form)))
+
+  const updatePhase = (presetIndex: number, phaseIndex: number, patch: Partial<PhaseForm>) =>
+    setForms((current) => current.map((form, i) => (i !== presetIndex ? form : {
+      ...form,
+      phases: form.phases.map((phase, j) => {
+        if (j !== phaseIndex) return phase
+        // Follow the kind with the label as long as it was not renamed
+        const label = patch.kind && phase.label === PHASE_LABELS[phase.kind] ? PHASE_LABELS[patch.kind] : phase.label
+        return { ...phase, label, ...patch }
+      }),
+    })))
+
+  const addPhase = (presetIndex: number) =>
+    setForms((current) => current.map((form, i) => (i !== presetIndex ? form : {
+      ...form,
+      // An open phase has to stay the last one
+      phases: [...form.phases.map((p) => ({ ...p, open: false })), toPhaseForm(PHASE_LABELS.play, 'play', 5 * 60)],
+    })))
+
+  const removePhase = (presetIndex: number, phaseIndex: number) =>
+    setForms((current) => current.map((form, i) => (i !== presetIndex ? form : {
+      ...form,
+      phases: form.phases.filter((_, j) => j !== phaseIndex),
+    })))
+
+  const addPreset = () =>
+    setForms((current) => [...current, {
+      id: `preset-${Date.now().toString(36)}`,
+      name: '',
+      phases: [toPhaseForm(PHASE_LABELS.play, 'play', 10 * 60)],
+    }])
+
+  const removePreset = (index: number) =>
+    setForms((current) => current.filter((_, i) => i !== index))
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    onSave(fromForm(forms))
+  }
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <form className="settings-panel preset-editor" onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>Zeitvorgaben</h2>
+          <button type="button" onClick={onClose} className="settings-close" title="Schließen">
+            <X size={18} />
+          </button>
+        </div>
+
+        {forms.map((form, presetIndex) => (
+          <div key={form.id} className="preset-editor-item">
+            <div className="preset-editor-name">
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => updatePreset(presetIndex, { name: e.target.value })}
+                placeholder={`Vorgabe ${presetIndex + 1}`}
+                className="settings-input"
+              />
+              <button type="button" onClick={() => removePreset(presetIndex)} className="settings-close" title="Vorgabe löschen">
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            {form.phases.map((phase, phaseIndex) => {
+              const isLast = phaseIndex === form.phases.length - 1
+              return (
+                <div key={phaseIndex} className="preset-editor-phase">
+                  <input
+                    type="text"
+                    value={phase.label}
+                    onChange={(e) => updatePhase(presetIndex, phaseIndex, { label: e.target.value })}
+                    className="settings-input"
+                  />
+                  <select
+                    value={phase.kind}
+                    onChange={(e) => updatePhase(presetIndex, phaseIndex, { kind: e.target.value as PhaseKind })}
+                    className="settings-input"
+                  >
+                    {PHASE_KINDS.map((kind) => (
+                      <option key={kind} value={kind}>
+                        {PHASE_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    max="99"
+                    placeholder="Min"
+                    value={phase.minutes}
+                    onChange={(e) => updatePhase(presetIndex, phaseIndex, { minutes: e.target.value })}
+                    disabled={phase.open}
+                    className="time-input"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="59"
+                    placeholder="Sek"
+                    value={phase.seconds}
+                    onChange={(e) => updatePhase(presetIndex, phaseIndex, { seconds: e.target.value })}
+                    disabled={phase.open}
+                    className="time-input"
+                  />
+                  {/* Only the last phase after a timed one can run without a limit */}
+                  <label className="settings-checkbox" title="Ohne Zeitlimit, z. B. Golden Goal">
+                    <input
+                      type="checkbox"
+                      checked={phase.open}
+                      onChange={(e) => updatePhase(presetIndex, phaseIndex, { open: e.target.checked })}
+                      disabled={!isLast || phaseIndex === 0}
+                    />
+                    offen
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => removePhase(presetIndex, phaseIndex)}
+                    className="settings-close"
+                    title="Phase entfernen"
+                    disabled={form.phases.length === 1}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              )
+            })}
+
+            <button type="button" onClick={() => addPhase(presetIndex)} className="preset-btn preset-editor-add">
+              <Plus size={14} /> Phase
+            </button>
+          </div>
+        ))}
+
+        <button type="button" onClick={addPreset} className="preset-btn preset-editor-add">
+          <Plus size={14} /> Vorgabe
+        </button>
+        <span className="settings-hint">Phasen ohne Zeit und Vorgaben ohne Phasen werden beim Speichern entfernt.</span>
+
+        <div className="settings-actions">
+          <button type="button" onClick={() => setForms(toForm(DEFAULT_PRESETS))} className="control-btn reset">
+            <RotateCcw size={18} />
+            <span>Standard</span>
+          </button>
+          <button type="submit" className="control-btn play">
+            <Save size={18} />
+            <span>Speichern</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default PresetEditor
@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { Play, Pause, RotateCcw, Table, LayoutGrid, GitMerge, Award, MonitorPlay, Wifi, WifiOff, Smartphone } from 'lucide-react'
+import type { LucideIcon } from 'lucide-react'
+import { useRemoteRelay } from '../hooks/useRemoteRelay'
+import { formatTime } from '../utils/format'
+import { getRemoteToken } from '../remote'
+import type { RemoteCommand, RemoteState } from '../remote'
+import type { DisplayMode } from '../settings'
+import '../App.css'
+
+const MODE_BUTTONS: { mode: DisplayMode; label: string; icon: LucideIcon }[] = [
+  { mode: 'standings', label: 'Vorrunde', icon: Table },
+  { mode: 'tables', label: 'Tische', icon: LayoutGrid },
+  { mode: 'bracket', label: 'KO-Runde', icon: GitMerge },
+  { mode: 'results', label: 'Ergebnisse', icon: Award },
+]
+
+// Phone controller on /remote: timer, view and tournament of the beamer display
+function RemoteControl() {
+  const [state, setState] = useState<RemoteState | null>(null)
+  const [token] = useState(getRemoteToken)
+  const { connected, send } = useRemoteRelay(token, (message) => {
+    if (message.type === 'state') setState(message.state)
+  })
+
+  const sendCommand = (command: RemoteCommand) => send({ type: 'command', command })
+  const isTimeUp = state?.time === 0
+
+  return (
+    <div className="remote-control">
+      <header className="remote-header">
+        <Smartphone size={20} />
+        <h1>Fernbedienung</h1>
+        <span className={`remote-status ${connected ? 'online' : ''}`}>
+          {connected ? <Wifi size={14} /> : <WifiOff size={14} />}
+          {connected ? 'Verbunden' : 'Keine Verbindung'}
+        </span>
+      </header>
+
+      {!token ? (
+        <div className="error-message">
+          Dieser Link gehört zu keiner Anzeige. Bitte den Link aus den Einstellungen der Anzeige öffnen.
+        </div>
+      ) : !state ? (
+        <div className="loading">
+          {connected ? 'Warte auf die Anzeige…' : 'Verbinde mit der Anzeige…'}
+        </div>
+      ) : (
+        <>
+          {/* Tournament */}
+          {state.tournaments.length > 1 && (
+            <section className="remote-section">
+              <h2>Turnier</h2>
+              <select
+                value={state.selectedTournamentId}
+                onChange={(e) => sendCommand({ action: 'selectTournament', tournamentId: e.target.value })}
+                className="settings-input"
+              >
+                {state.tournaments.map((t) => (
+                  <option key={t._id} value={t._id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </section>
+          )}
+
+          {/* Timer */}
+          <section className="remote-section">
+            <h2>Spielzeit</h2>
+            <div className={`remote-time ${isTimeUp ? 'time-up' : ''}`}>{formatTime(state.time)}</div>
+            {state.phaseLabel && <div className="remote-phase">{state.phaseLabel}</div>}
+            <div className="timer-controls">
+              <button
+                onClick={() => sendCommand({ action: 'toggleTimer' })}
+                className={`control-btn ${state.isRunning ? 'pause' : 'play'}`}
+              >
+                {state.isRunning ? <Pause size={24} /> : <Play size={24} />}
+                <span>{state.isRunning ? 'Pause' : 'Start'}</span>
+              </button>
+              <button onClick={() => sendCommand({ action: 'resetTimer' })} className="control-btn reset">
+                <RotateCcw size={24} />
+                <span>Reset</span>
+              </button>
+            </div>
+            <div className="preset-buttons">
+              {state.presets.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => sendCommand({ action: 'setPreset', presetId: preset.id })}
+                  className={`preset-btn ${state.presetId === preset.id ? 'active' : ''}`}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* View */}
+          <section className="remote-section">
+            <h2>Ansicht</h2>
+            <div className="remote-modes">
+              {MODE_BUTTONS.map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => sendCommand({ action: 'setDisplayMode', mode })}
+                  className={`mode-btn ${!state.kioskActive && state.displayMode === mode ? 'active' : ''}`}
+                >
+                  <Icon size={18} />
+                  <span>{label}</span>
+                </button>
+              ))}
+              <button
+                onClick={() => sendCommand({ action: 'setKiosk', active: !state.kioskActive })}
+                className={`mode-btn ${state.kioskActive ? 'active' : ''}`}
+              >
+                <MonitorPlay size={18} />
+                <span>Kiosk</span>
+              </button>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default RemoteControl
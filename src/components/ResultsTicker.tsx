@@ -0,0 +1,43 @@
+import { Zap } from 'lucide-react'
+import type { TickerResult } from '../hooks/useResultsTicker'
+
+interface ResultsTickerProps {
+  results: TickerResult[]
+}
+
+// Seconds one result needs to scroll through the bar
+const SECONDS_PER_RESULT = 6
+
+// Scrolling bar with the latest results, the winner highlighted and upsets flagged
+function ResultsTicker({ results }: ResultsTickerProps) {
+  if (results.length === 0) return null
+
+  const items = results.map(({ match, roundName, winner, upset, fresh }) => (
+    <span key={match._id} className={`ticker-item ${upset ? 'upset' : ''} ${fresh ? 'fresh' : ''}`}>
+      <span className="ticker-round">{roundName}</span>
+      <span className={`ticker-team ${winner === 0 ? 'winner' : ''}`}>{match.team1.name}</span>
+      <span className="ticker-score">{match.result[0]} : {match.result[1]}</span>
+      <span className={`ticker-team ${winner === 1 ? 'winner' : ''}`}>{match.team2.name}</span>
+      {upset && (
+        <span className="ticker-upset">
+          <Zap size={12} /> Überraschung
+        </span>
+      )}
+    </span>
+  ))
+
+  return (
+    <div className="results-ticker">
+      <span className="ticker-label">Letzte Ergebnisse</span>
+      <div className="ticker-viewport">
+        {/* The list is shown twice so the loop has no gap */}
+        <div className="ticker-track" style={{ animationDuration: `${results.length * SECONDS_PER_RESULT}s` }}>
+          <div className="ticker-items">{items}</div>
+          <div className="ticker-items" aria-hidden="true">{items}</div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ResultsTicker
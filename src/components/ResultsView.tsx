@@ -0,0 +1,104 @@
+import { Trophy, Medal, Award } from 'lucide-react'
+import TeamLink from './TeamLink'
+import { getEliminationRanking, getFinalRanking } from '../utils/ranking'
+import type { RankingPlace } from '../utils/ranking'
+import type { EliminationGroup, TournamentData } from '../api/types'
+
+interface ResultsViewProps {
+  tournamentData: TournamentData
+  eliminations: EliminationGroup[]  // Eliminations to show, e.g. only the selected one
+  onTeamClick?: (teamId: string) => void
+  onCertificates?: (elimination: EliminationGroup) => void
+}
+
+const PODIUM = [
+  { index: 1, className: 'second', medal: <Medal className="medal silver" /> },
+  { index: 0, className: 'first', medal: <Trophy className="winner-trophy" /> },
+  { index: 2, className: 'third', medal: <Medal className="medal bronze" /> },
+]
+
+// Final results per elimination: podium titled with the elimination name, remaining KO places and teams that did not qualify
+function ResultsView({ tournamentData, eliminations, onTeamClick, onCertificates }: ResultsViewProps) {
+  const ranking = getFinalRanking(tournamentData)
+  // Teams that didn't make it to KO (from all qualifying groups), numbered after the KO places
+  const nonQualifiedPlaces = ranking.find((section) => section.elimination === null)?.places ?? []
+
+  const placeList = (places: RankingPlace[]) => (
+    <div className="results-list">
+      {places.map(({ place, teams }) => (
+        <div key={place} className={`results-place-group ${teams.length > 1 ? 'tied' : ''}`}>
+          <span className="results-place">{place}.</span>
+          <div className="results-names">
+            {teams.map((team) => (
+              <span key={team._id} className="results-name">
+                <TeamLink team={team} onClick={onTeamClick} />
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="results-view">
+      {eliminations.map((elimination, eliminationIndex) => {
+        // The first three places on the podium, the rest below
+        const places = getEliminationRanking(ranking, elimination)
+        const remainingPlaces = places.slice(3)
+        // Non-qualified teams are listed once, below the last elimination
+        const showNonQualified = eliminationIndex === eliminations.length - 1 && nonQualifiedPlaces.length > 0
+
+        return (
+          <div key={elimination._id} className="results-elimination">
+            <h3 className="results-title">{elimination.name || tournamentData.name}</h3>
+            {onCertificates && elimination.standings.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onCertificates(elimination)}
+                className="certificate-btn"
+                title="Urkunden drucken"
+              >
+                <Award size={16} />
+                <span>Urkunden</span>
+              </button>
+            )}
+
+            {/* Podium */}
+            <div className="podium">
+              {PODIUM.map(({ index, className, medal }) => places[index] && (
+                <div key={index} className={`podium-place ${className}`}>
+                  <div className="podium-medal">{medal}</div>
+                  {places[index].teams.map((team) => (
+                    <div key={team._id} className="podium-name"><TeamLink team={team} onClick={onTeamClick} /></div>
+                  ))}
+                  <div className="podium-block">
+                    <span className="podium-number">{places[index].place}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Rest of KO standings - grouped by place */}
+            {remainingPlaces.length > 0 && (
+              <div className="results-remaining">
+                <h4>Weitere Platzierungen (KO-Runde)</h4>
+                {placeList(remainingPlaces)}
+              </div>
+            )}
+
+            {/* Teams that didn't qualify for KO */}
+            {showNonQualified && (
+              <div className="results-remaining results-non-ko">
+                <h4>Vorrunde (nicht für KO qualifiziert)</h4>
+                {placeList(nonQualifiedPlaces)}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ResultsView
@@ -0,0 +1,286 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { X, Save, RotateCcw } from 'lucide-react'
+import { DEFAULT_SETTINGS, KIOSK_SCENES, MAX_QUEUE_LENGTH, MIN_SCENE_SECONDS, sanitizeSettings } from '../settings'
+import { TIMER_CUES } from '../utils/sounds'
+import type { DisplaySettings, DisplayMode, KioskScene, SceneConfig } from '../settings'
+import type { TimerCue } from '../utils/sounds'
+
+interface SettingsPanelProps {
+  settings: DisplaySettings
+  tournaments: { _id: string; name: string }[]
+  remoteLink: string  // /remote link with the pairing token of this display
+  onSave: (settings: DisplaySettings) => void
+  onClose: () => void
+}
+
+const MODE_LABELS: Record<DisplayMode, string> = {
+  standings: 'Vorrunde',
+  tables: 'Tische',
+  bracket: 'KO-Runde',
+  results: 'Ergebnisse',
+}
+
+const SCENE_LABELS: Record<KioskScene, string> = {
+  standings: 'Vorrunde',
+  matches: 'Aktuelle & nächste Spiele',
+  tables: 'Tischbelegung',
+  bracket: 'KO-Runde',
+  results: 'Ergebnisse',
+  sponsor: 'Sponsor',
+}
+
+const CUE_LABELS: Record<TimerCue, string> = {
+  warning: 'Noch 1 Minute',
+  countdown: 'Letzte 10 Sekunden',
+  phase: 'Phasenwechsel (z. B. Halbzeit)',
+  end: 'Schlusssignal',
+}
+
+type SceneForm = Record<KioskScene, { enabled: boolean; seconds: string }>
+
+const toSceneForm = (scenes: SceneConfig[]): SceneForm =>
+  Object.fromEntries(KIOSK_SCENES.map((scene) => {
+    const config = scenes.find((s) => s.scene === scene)
+    const fallback = DEFAULT_SETTINGS.kioskScenes.find((s) => s.scene === scene)?.seconds ?? 15
+    return [scene, { enabled: !!config, seconds: String(config?.seconds ?? fallback) }]
+  })) as SceneForm
+
+function SettingsPanel({ settings, tournaments, remoteLink, onSave, onClose }: SettingsPanelProps) {
+  const [pageSlug, setPageSlug] = useState(settings.pageSlug)
+  const [tournamentId, setTournamentId] = useState(settings.tournamentId)
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(settings.displayMode)
+  const [pollInterval, setPollInterval] = useState(String(settings.pollInterval))
+  const [queueLength, setQueueLength] = useState(String(settings.queueLength))
+  const [kiosk, setKiosk] = useState(settings.kiosk)
+  const [scenes, setScenes] = useState<SceneForm>(() => toSceneForm(settings.kioskScenes))
+  const [soundCues, setSoundCues] = useState<TimerCue[]>(settings.soundCues)
+  const [tableTimers, setTableTimers] = useState(settings.tableTimers)
+  const [ticker, setTicker] = useState(settings.ticker)
+  const [sync, setSync] = useState(settings.sync)
+  const [remote, setRemote] = useState(settings.remote)
+
+  const updateScene = (scene: KioskScene, patch: Partial<SceneForm[KioskScene]>) =>
+    setScenes((current) => ({ ...current, [scene]: { ...current[scene], ...patch } }))
+
+  const toggleCue = (cue: TimerCue, enabled: boolean) =>
+    setSoundCues((current) => TIMER_CUES.filter((c) => (c === cue ? enabled : current.includes(c))))
+
+  // The tournament list belongs to the currently loaded page only
+  const pageChanged = pageSlug.trim() !== settings.pageSlug
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    const kioskScenes = KIOSK_SCENES
+      .filter((scene) => scenes[scene].enabled)
+      .map((scene) => ({ scene, seconds: scenes[scene].seconds }))
+    onSave(sanitizeSettings({ pageSlug, tournamentId, displayMode, pollInterval, queueLength, kiosk, kioskScenes, soundCues, tableTimers, ticker, sync, remote }))
+  }
+
+  const handleReset = () => {
+    setPageSlug(DEFAULT_SETTINGS.pageSlug)
+    setTournamentId(DEFAULT_SETTINGS.tournamentId)
+    setDisplayMode(DEFAULT_SETTINGS.displayMode)
+    setPollInterval(String(DEFAULT_SETTINGS.pollInterval))
+    setQueueLength(String(DEFAULT_SETTINGS.queueLength))
+    setKiosk(DEFAULT_SETTINGS.kiosk)
+    setScenes(toSceneForm(DEFAULT_SETTINGS.kioskScenes))
+    setSoundCues(DEFAULT_SETTINGS.soundCues)
+    setTableTimers(DEFAULT_SETTINGS.tableTimers)
+    setTicker(DEFAULT_SETTINGS.ticker)
+    setSync(DEFAULT_SETTINGS.sync)
+    setRemote(DEFAULT_SETTINGS.remote)
+  }
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <form className="settings-panel" onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>Einstellungen</h2>
+          <button type="button" onClick={onClose} className="settings-close" title="Schließen">
+            <X size={18} />
+          </button>
+        </div>
+
+        <label className="settings-field">
+          <span className="settings-label">Kickertool-Seite</span>
+          <input
+            type="text"
+            value={pageSlug}
+            onChange={(e) => setPageSlug(e.target.value)}
+            placeholder={DEFAULT_SETTINGS.pageSlug}
+            className="settings-input"
+          />
+          <span className="settings-hint">live.kickertool.de/<strong>{pageSlug || '…'}</strong></span>
+        </label>
+
+        <label className="settings-field">
+          <span className="settings-label">Turnier</span>
+          {pageChanged || tournaments.length === 0 ? (
+            <input
+              type="text"
+              value={tournamentId}
+              onChange={(e) => setTournamentId(e.target.value)}
+              placeholder="Turnier-ID (leer = neuestes Turnier)"
+              className="settings-input"
+            />
+          ) : (
+            <select
+              value={tournamentId}
+              onChange={(e) => setTournamentId(e.target.value)}
+              className="settings-input"
+            >
+              <option value="">Neuestes Turnier automatisch</option>
+              {tournaments.map((t) => (
+                <option key={t._id} value={t._id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </label>
+
+        <label className="settings-field">
+          <span className="settings-label">Ansicht beim Start</span>
+          <select
+            value={displayMode}
+            onChange={(e) => setDisplayMode(e.target.value as DisplayMode)}
+            className="settings-input"
+          >
+            {(Object.keys(MODE_LABELS) as DisplayMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span className="settings-label">Aktualisierungsintervall (Sekunden)</span>
+          <input
+            type="number"
+            min="2"
+            value={pollInterval}
+            onChange={(e) => setPollInterval(e.target.value)}
+            className="settings-input"
+          />
+        </label>
+
+        <label className="settings-field">
+          <span className="settings-label">Anzahl nächster Spiele</span>
+          <input
+            type="number"
+            min="1"
+            max={MAX_QUEUE_LENGTH}
+            value={queueLength}
+            onChange={(e) => setQueueLength(e.target.value)}
+            className="settings-input"
+          />
+        </label>
+
+        <div className="settings-field">
+          <span className="settings-label">Kiosk-Modus (Szenen und Anzeigedauer in Sekunden)</span>
+          <div className="settings-scenes">
+            {KIOSK_SCENES.map((scene) => (
+              <div key={scene} className="settings-scene">
+                <label className="settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={scenes[scene].enabled}
+                    onChange={(e) => updateScene(scene, { enabled: e.target.checked })}
+                  />
+                  {SCENE_LABELS[scene]}
+                </label>
+                <input
+                  type="number"
+                  min={MIN_SCENE_SECONDS}
+                  value={scenes[scene].seconds}
+                  onChange={(e) => updateScene(scene, { seconds: e.target.value })}
+                  disabled={!scenes[scene].enabled}
+                  className="settings-input settings-seconds"
+                />
+              </div>
+            ))}
+          </div>
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={kiosk} onChange={(e) => setKiosk(e.target.checked)} />
+            Beim Start im Kiosk-Modus
+          </label>
+          <span className="settings-hint">Leertaste: Pause, Pfeiltasten: Szene wechseln, F: Vollbild, Esc: beenden</span>
+        </div>
+
+        <div className="settings-field">
+          <span className="settings-label">Timer-Signale</span>
+          <div className="settings-scenes">
+            {TIMER_CUES.map((cue) => (
+              <label key={cue} className="settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={soundCues.includes(cue)}
+                  onChange={(e) => toggleCue(cue, e.target.checked)}
+                />
+                {CUE_LABELS[cue]}
+              </label>
+            ))}
+          </div>
+          <span className="settings-hint">Lautstärke und Stummschalten direkt am Timer</span>
+        </div>
+
+        <div className="settings-field">
+          <span className="settings-label">Timer pro Tisch</span>
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={tableTimers} onChange={(e) => setTableTimers(e.target.checked)} />
+            Eigener Countdown für jedes laufende Spiel
+          </label>
+          <span className="settings-hint">Startet, sobald ein Spiel einen Tisch hat, und nutzt die Spielzeit des Timers. Überzogene Tische werden rot markiert.</span>
+        </div>
+
+        <div className="settings-field">
+          <span className="settings-label">Ergebnis-Ticker</span>
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={ticker} onChange={(e) => setTicker(e.target.checked)} />
+            Laufband mit den letzten Ergebnissen
+          </label>
+          <span className="settings-hint">Neue Ergebnisse erscheinen vorne, Überraschungen gegen Top-3-Teams werden markiert.</span>
+        </div>
+
+        <div className="settings-field">
+          <span className="settings-label">Mehrere Bildschirme</span>
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={sync} onChange={(e) => setSync(e.target.checked)} />
+            Fenster und Tabs dieses Browsers synchronisieren
+          </label>
+          <span className="settings-hint">Ein Fenster lädt die Turnierdaten und führt den Timer, die anderen zeigen denselben Stand. Die Ansicht bleibt pro Fenster wählbar.</span>
+        </div>
+
+        <div className="settings-field">
+          <span className="settings-label">Fernbedienung</span>
+          <label className="settings-checkbox">
+            <input type="checkbox" checked={remote} onChange={(e) => setRemote(e.target.checked)} />
+            Steuerung per Handy erlauben
+          </label>
+          {remote ? (
+            <span className="settings-hint">
+              Diesen Link auf dem Handy öffnen, er gilt nur für diese Anzeige: <a href={remoteLink} target="_blank" rel="noreferrer">{remoteLink}</a>
+            </span>
+          ) : (
+            <span className="settings-hint">Braucht den Server der App (<strong>npm start</strong> oder den Vite-Server), auf einem reinen Static-Hosting gibt es keine Fernbedienung.</span>
+          )}
+        </div>
+
+        <div className="settings-actions">
+          <button type="button" onClick={handleReset} className="control-btn reset">
+            <RotateCcw size={18} />
+            <span>Standard</span>
+          </button>
+          <button type="submit" className="control-btn play">
+            <Save size={18} />
+            <span>Speichern</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default SettingsPanel
@@ -0,0 +1,19 @@
+import type { SponsorConfig } from '../sponsor'
+
+interface SponsorSlideProps {
+  sponsor: SponsorConfig
+}
+
+// Full size sponsor logo for the kiosk rotation
+function SponsorSlide({ sponsor }: SponsorSlideProps) {
+  return (
+    <div className="sponsor-slide">
+      <span className="sponsor-slide-label">Mit freundlicher Unterstützung von</span>
+      <img src={sponsor.logo} alt={sponsor.name} className="sponsor-slide-logo" />
+      <span className="sponsor-slide-name">{sponsor.name}</span>
+      {sponsor.tagline && <span className="sponsor-slide-tagline">{sponsor.tagline}</span>}
+    </div>
+  )
+}
+
+export default SponsorSlide
@@ -0,0 +1,120 @@
+import { useRef } from 'react'
+import { Medal } from 'lucide-react'
+import MatchesView from './MatchesView'
+import TeamLink from './TeamLink'
+import { useAutoScroll } from '../hooks/useAutoScroll'
+import { usePositionChanges } from '../hooks/usePositionChanges'
+import { getQualifyingGroups, getGroupName } from '../utils/tournament'
+import type { Standing, TournamentData } from '../api/types'
+import type { TableTimers } from '../hooks/useTableTimers'
+
+const getMedalIcon = (place: number) => {
+  if (place === 1) return <Medal className="medal gold" />
+  if (place === 2) return <Medal className="medal silver" />
+  if (place === 3) return <Medal className="medal bronze" />
+  return <span className="place-number">{place}</span>
+}
+
+interface GroupTableProps {
+  standings: Standing[]
+  title?: string
+  onScrolledThrough?: () => void
+  onTeamClick?: (teamId: string) => void
+}
+
+// Live table of one qualifying group, with its own scrolling and position animations
+function GroupTable({ standings, title, onScrolledThrough, onTeamClick }: GroupTableProps) {
+  const positionChanges = usePositionChanges(standings)
+  const scrollRef = useAutoScroll<HTMLDivElement>(standings, onScrolledThrough)
+
+  return (
+    <div className="standings-table">
+      {title && <div className="group-title">{title}</div>}
+      <div className="table-header">
+        <span className="col-place">#</span>
+        <span className="col-team">Team</span>
+        <span className="col-stats">S</span>
+        <span className="col-stats">G</span>
+        <span className="col-stats">V</span>
+        <span className="col-goals">Tore</span>
+        <span className="col-points">Pkt</span>
+      </div>
+      <div className="table-scroll-container" ref={scrollRef}>
+        {standings.map((team, index) => {
+          const posChange = positionChanges.get(team._id)
+          const animClass = posChange === 'up' ? 'slide-up' : posChange === 'down' ? 'slide-down' : ''
+          return (
+            <div
+              key={team._id}
+              className={`table-row ${index < 3 ? `top-${index + 1}` : ''} ${animClass}`}
+            >
+              <span className="col-place">{getMedalIcon(team.stats.place)}</span>
+              <span className="col-team"><TeamLink team={team} onClick={onTeamClick} /></span>
+              <span className="col-stats">{team.stats.matches}</span>
+              <span className="col-stats win">{team.stats.won}</span>
+              <span className="col-stats loss">{team.stats.lost}</span>
+              <span className="col-goals">
+                {team.stats.goals}:{team.stats.goals_in}
+                <span className={`goal-diff ${team.stats.goal_diff >= 0 ? 'positive' : 'negative'}`}>
+                  ({team.stats.goal_diff >= 0 ? '+' : ''}{team.stats.goal_diff})
+                </span>
+              </span>
+              <span className="col-points">{team.stats.points}</span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+interface StandingsViewProps {
+  tournamentData: TournamentData | null
+  onScrolledThrough?: () => void  // Every group table has been shown completely
+  tableTimers?: TableTimers
+  queueLength?: number
+  onTeamClick?: (teamId: string) => void
+}
+
+// Group phase tables (one per group) with current and upcoming matches
+function StandingsView({ tournamentData, onScrolledThrough, tableTimers, queueLength, onTeamClick }: StandingsViewProps) {
+  const groups = getQualifyingGroups(tournamentData).filter(g => g.standings.length > 0)
+  const scrolledGroupsRef = useRef(new Set<number>())
+  // Only label the groups when there is more than one
+  const groupTitle = (index: number) =>
+    groups.length > 1 ? getGroupName(groups[index], index, groups.length) : undefined
+
+  const handleGroupScrolled = (index: number) => {
+    scrolledGroupsRef.current.add(index)
+    if (scrolledGroupsRef.current.size >= groups.length) onScrolledThrough?.()
+  }
+
+  return (
+    <div className="standings-container">
+      {/* Standings Tables - at top, side by side for several groups */}
+      {groups.length === 0 ? (
+        <div className="standings-table">
+          <div style={{ padding: '1rem', color: '#94a3b8' }}>
+            Keine Vorrunden-Daten verfügbar.
+          </div>
+        </div>
+      ) : (
+        <div className={`standings-groups ${groups.length > 1 ? 'multi' : ''}`}>
+          {groups.map((group, index) => (
+            <GroupTable
+              key={group._id || index}
+              standings={group.standings}
+              title={groupTitle(index)}
+              onScrolledThrough={() => handleGroupScrolled(index)}
+              onTeamClick={onTeamClick}
+            />
+          ))}
+        </div>
+      )}
+
+      <MatchesView tournamentData={tournamentData} tableTimers={tableTimers} queueLength={queueLength} />
+    </div>
+  )
+}
+
+export default StandingsView
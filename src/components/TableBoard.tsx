@@ -0,0 +1,73 @@
+import { ArrowRight } from 'lucide-react'
+import { getTableBoard } from '../utils/tournament'
+import { formatClockTime, formatTime } from '../utils/format'
+import type { TournamentData } from '../api/types'
+import type { TableTimers } from '../hooks/useTableTimers'
+
+interface TableBoardProps {
+  tournamentData: TournamentData | null
+  tableTimers?: TableTimers
+}
+
+// All tables of the tournament: who is playing where, which tables are free
+// and which queued match goes to a free table next
+function TableBoard({ tournamentData, tableTimers }: TableBoardProps) {
+  const board = getTableBoard(tournamentData)
+
+  if (board.length === 0) {
+    return <div className="loading">Noch keine Tische bekannt.</div>
+  }
+
+  const freeCount = board.filter((status) => !status.match).length
+
+  return (
+    <div className="table-board">
+      <div className="table-board-summary">
+        {board.length - freeCount} von {board.length} Tischen belegt
+        {freeCount > 0 && <span className="table-board-free"> · {freeCount} frei</span>}
+      </div>
+
+      <div className="table-board-grid">
+        {board.map(({ table, match, since, next }) => {
+          const timer = match ? tableTimers?.[match._id] : undefined
+          return (
+            <div key={table._id} className={`table-card ${match ? 'busy' : 'free'} ${timer?.overdue ? 'overdue' : ''}`}>
+              <div className="table-card-header">
+                <span className="table-card-name">Tisch {table.name}</span>
+                <span className="table-card-status">{match ? 'Belegt' : 'Frei'}</span>
+              </div>
+
+              {match ? (
+                <div className="table-card-match">
+                  <span className="current-team">{match.team1.name}</span>
+                  <span className="current-vs">vs</span>
+                  <span className="current-team">{match.team2.name}</span>
+                </div>
+              ) : next ? (
+                <div className="table-card-next">
+                  <ArrowRight size={14} />
+                  <span>Als Nächstes: {next.team1.name} vs {next.team2.name}</span>
+                </div>
+              ) : (
+                <div className="table-card-next empty">Kein Spiel in der Warteschlange</div>
+              )}
+
+              {(since !== null || timer) && (
+                <div className="table-card-footer">
+                  {since !== null && <span>{match ? 'seit' : 'frei seit'} {formatClockTime(since)}</span>}
+                  {timer && (
+                    <span className="table-card-timer">
+                      {timer.overdue ? `+${formatTime(-timer.remaining)}` : formatTime(timer.remaining)}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default TableBoard
@@ -0,0 +1,153 @@
+import { X, Swords, MapPin } from 'lucide-react'
+import { getTeamDetail } from '../utils/tournament'
+import type { TeamMatch } from '../utils/tournament'
+import type { TournamentData } from '../api/types'
+
+interface TeamDetailPanelProps {
+  tournamentData: TournamentData | null
+  teamId: string
+  onClose: () => void
+}
+
+const OUTCOME_LABELS: Record<NonNullable<TeamMatch['outcome']>, string> = {
+  won: 'S',
+  draw: 'U',
+  lost: 'N',
+}
+
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 80
+const CHART_PADDING = 8
+
+// Goal difference after each match as a line around the zero line
+function GoalDiffChart({ history }: { history: number[] }) {
+  const values = [0, ...history]
+  const max = Math.max(1, ...values.map(Math.abs))
+  const x = (index: number) => CHART_PADDING + (index / (values.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING)
+  const y = (value: number) => CHART_HEIGHT / 2 - (value / max) * (CHART_HEIGHT / 2 - CHART_PADDING)
+  const points = values.map((value, index) => `${x(index)},${y(value)}`).join(' ')
+
+  return (
+    <svg className="goal-diff-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}>
+      <line className="goal-diff-zero" x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} />
+      <polyline className="goal-diff-line" points={points} />
+      {values.slice(1).map((value, index) => (
+        <circle
+          key={index}
+          className={`goal-diff-point ${value >= 0 ? 'positive' : 'negative'}`}
+          cx={x(index + 1)}
+          cy={y(value)}
+          r={3.5}
+        >
+          <title>{value >= 0 ? '+' : ''}{value}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+// Matches, places and the next opponent of one team
+function TeamDetailPanel({ tournamentData, teamId, onClose }: TeamDetailPanelProps) {
+  const detail = getTeamDetail(tournamentData, teamId)
+  const won = detail?.played.filter((m) => m.outcome === 'won').length ?? 0
+  const draws = detail?.played.filter((m) => m.outcome === 'draw').length ?? 0
+  const lost = detail?.played.filter((m) => m.outcome === 'lost').length ?? 0
+  const goals = detail?.played.reduce((sum, m) => sum + m.goals, 0) ?? 0
+  const goalsAgainst = detail?.played.reduce((sum, m) => sum + m.goalsAgainst, 0) ?? 0
+  const goalDiff = detail?.goalDiffHistory.at(-1) ?? 0
+  const next = detail?.next
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel team-detail" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>{detail?.name || 'Team'}</h2>
+          <button type="button" onClick={onClose} className="settings-close" title="Schließen">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!detail ? (
+          <div className="loading">Keine Daten zu diesem Team.</div>
+        ) : (
+          <>
+            {/* Places and record */}
+            <div className="team-detail-stats">
+              {detail.finalPlace && (
+                <div className="team-detail-stat highlight">
+                  <span className="team-detail-value">{detail.finalPlace.place}.</span>
+                  <span className="team-detail-label">Endplatz{detail.finalPlace.elimination && ` (${detail.finalPlace.elimination})`}</span>
+                </div>
+              )}
+              {detail.groupPlace !== null && (
+                <div className="team-detail-stat">
+                  <span className="team-detail-value">{detail.groupPlace}.</span>
+                  <span className="team-detail-label">{detail.groupName}</span>
+                </div>
+              )}
+              <div className="team-detail-stat">
+                <span className="team-detail-value">{won}-{draws}-{lost}</span>
+                <span className="team-detail-label">S-U-N</span>
+              </div>
+              <div className="team-detail-stat">
+                <span className="team-detail-value">{goals}:{goalsAgainst}</span>
+                <span className="team-detail-label">Tore ({goalDiff >= 0 ? '+' : ''}{goalDiff})</span>
+              </div>
+            </div>
+
+            {/* Next opponent */}
+            <div className={`team-detail-next ${next?.match.tables.length ? 'playing' : ''}`}>
+              <Swords size={18} />
+              {!next ? (
+                <span>Keine weiteren Spiele</span>
+              ) : (
+                <div>
+                  <div className="team-detail-next-opponent">
+                    {next.opponent ? `Nächster Gegner: ${next.opponent}` : 'Nächster Gegner steht noch nicht fest'}
+                  </div>
+                  <div className="team-detail-next-info">
+                    {next.roundName}
+                    {next.match.tables.length > 0 && (
+                      <span className="team-detail-table">
+                        <MapPin size={12} /> läuft an Tisch {next.match.tables[0].name}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Goal difference over time */}
+            {detail.goalDiffHistory.length > 0 && (
+              <div className="settings-field">
+                <span className="settings-label">Tordifferenz im Verlauf</span>
+                <GoalDiffChart history={detail.goalDiffHistory} />
+              </div>
+            )}
+
+            {/* Match history */}
+            <div className="settings-field">
+              <span className="settings-label">Spiele</span>
+              {detail.played.length === 0 ? (
+                <span className="settings-hint">Noch keine Spiele gespielt.</span>
+              ) : (
+                <div className="team-detail-matches">
+                  {detail.played.map(({ match, roundName, opponent, goals, goalsAgainst, outcome }) => (
+                    <div key={match._id} className={`team-detail-match ${outcome}`}>
+                      <span className="team-detail-outcome">{outcome && OUTCOME_LABELS[outcome]}</span>
+                      <span className="team-detail-round">{roundName}</span>
+                      <span className="team-detail-opponent">{opponent}</span>
+                      <span className="team-detail-score">{goals}:{goalsAgainst}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TeamDetailPanel
@@ -0,0 +1,19 @@
+import type { MatchTeam } from '../api/types'
+
+interface TeamLinkProps {
+  team: MatchTeam
+  onClick?: (teamId: string) => void  // Opens the team details, plain text without it
+}
+
+// Team name that opens the team details when clicked
+function TeamLink({ team, onClick }: TeamLinkProps) {
+  const { _id: teamId, name } = team
+  if (!onClick || !name || !teamId) return <>{name}</>
+  return (
+    <button type="button" className="team-link" onClick={() => onClick(teamId)} title="Team-Details anzeigen">
+      {name}
+    </button>
+  )
+}
+
+export default TeamLink
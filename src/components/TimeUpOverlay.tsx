@@ -0,0 +1,14 @@
+interface TimeUpOverlayProps {
+  onDone: () => void
+}
+
+// Flashes the whole screen when the match time is up; click to dismiss early
+function TimeUpOverlay({ onDone }: TimeUpOverlayProps) {
+  return (
+    <div className="time-up-overlay" onClick={onDone} onAnimationEnd={onDone}>
+      <span className="time-up-text">Zeit ist um!</span>
+    </div>
+  )
+}
+
+export default TimeUpOverlay
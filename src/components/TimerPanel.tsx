@@ -0,0 +1,235 @@
+import { useState } from 'react'
+import { Play, Pause, RotateCcw, Timer, Volume2, VolumeX, Pencil } from 'lucide-react'
+import PresetEditor from './PresetEditor'
+import { formatTime } from '../utils/format'
+import { unlockAudio } from '../utils/sounds'
+import type { TimerControls } from '../hooks/useTimer'
+import type { SoundControls } from '../hooks/useSoundControls'
+import type { TimerPresets } from '../hooks/useTimerPresets'
+import type { TimerPhase, TimerPosition, TimerPreset } from '../utils/timerFormat'
+
+const RADIUS = 90
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS
+const PHASE_GAP = 6  // Gap between the phase segments on the ring
+
+interface RingSegment {
+  kind: TimerPhase['kind']
+  start: number     // Offset on the ring
+  length: number
+  remaining: number // Part of the segment still to play, 0..1
+  current: boolean
+}
+
+// One ring segment per timed phase, sized by its length. An open phase (golden goal)
+// has no segment - the ring is used up when it starts.
+const getRingSegments = (phases: TimerPhase[], position: TimerPosition): RingSegment[] => {
+  const timed = phases.filter((p) => p.seconds !== null)
+  const total = timed.reduce((sum, p) => sum + (p.seconds ?? 0), 0)
+  const gap = timed.length > 1 ? PHASE_GAP : 0
+  let start = 0
+
+  return timed.map((phase, index) => {
+    const length = (CIRCUMFERENCE * (phase.seconds ?? 0)) / total
+    const remaining = index < position.index ? 0 : index > position.index ? 1 : position.seconds / (phase.seconds ?? 1)
+    const segment = { kind: phase.kind, start, length: Math.max(length - gap, 0), remaining, current: index === position.index }
+    start += length
+    return segment
+  })
+}
+
+// The custom time fields show the current format when it is a plain countdown of its own
+const getCustomTime = (timer: TimerControls) => {
+  const [phase] = timer.phases
+  if (timer.presetId !== null || timer.phases.length !== 1 || phase.seconds === null) return ['', '']
+  return [String(Math.floor(phase.seconds / 60)), String(phase.seconds % 60)]
+}
+
+interface TimerPanelProps {
+  timer: TimerControls
+  sound: SoundControls
+  presets: TimerPresets
+}
+
+// Circular match timer with controls, presets, sound settings and custom time input.
+// Multi-phase formats (halves, breaks, overtime) show one ring segment per phase.
+function TimerPanel({ timer, sound, presets }: TimerPanelProps) {
+  const { time, isRunning, position, phases, presetId, toggleTimer, resetTimer, setDuration, setFormat } = timer
+  const [customMinutes, setCustomMinutes] = useState(() => getCustomTime(timer)[0])
+  const [customSeconds, setCustomSeconds] = useState(() => getCustomTime(timer)[1])
+  const [showEditor, setShowEditor] = useState(false)
+
+  const segments = getRingSegments(phases, position)
+  const isPlaying = !!position.phase && position.phase.kind !== 'break'
+  const isLowTime = isPlaying && !position.countsUp && time <= 60
+  const isTimeUp = position.finished
+  const showPhase = phases.length > 1
+
+  const handleToggle = () => {
+    // Starting is a user gesture, which lets the browser play the signals later
+    unlockAudio()
+    toggleTimer()
+  }
+
+  const handlePreset = (preset: TimerPreset) => {
+    setFormat(preset.phases, preset.id)
+    setCustomMinutes('')
+    setCustomSeconds('')
+  }
+
+  const setCustomTime = () => {
+    const mins = parseInt(customMinutes) || 0
+    const secs = parseInt(customSeconds) || 0
+    setDuration(mins * 60 + secs)
+  }
+
+  return (
+    <section className="timer-section">
+      <div className="timer-card">
+        <div className="timer-header">
+          <Timer className="timer-icon" />
+          <h2>Spielzeit</h2>
+        </div>
+
+        {/* Circular Timer */}
+        <div className="timer-circle-container">
+          <svg className={`timer-circle ${segments.length > 1 ? 'phased' : ''}`} viewBox="0 0 200 200">
+            <defs>
+              <linearGradient id="gradient" x1="0%" y1="0%" x2="100%" y2="100%">
+                <stop offset="0%" stopColor="#8BA829" />
+                <stop offset="50%" stopColor="#a3c432" />
+                <stop offset="100%" stopColor="#b8d943" />
+              </linearGradient>
+            </defs>
+            {segments.map((segment, index) => (
+              <circle
+                key={`bg-${index}`}
+                className={`timer-circle-bg ${segment.current ? 'current' : ''}`}
+                cx="100"
+                cy="100"
+                r={RADIUS}
+                strokeDasharray={`${segment.length} ${CIRCUMFERENCE}`}
+                strokeDashoffset={-segment.start}
+              />
+            ))}
+            {segments.map((segment, index) => segment.remaining > 0 && (
+              <circle
+                key={`progress-${index}`}
+                className={`timer-circle-progress ${segment.kind} ${isLowTime ? 'low-time' : ''} ${isTimeUp ? 'time-up' : ''}`}
+                cx="100"
+                cy="100"
+                r={RADIUS}
+                strokeDasharray={`${segment.length * segment.remaining} ${CIRCUMFERENCE}`}
+                strokeDashoffset={-segment.start}
+              />
+            ))}
+          </svg>
+          <div className={`timer-display ${isLowTime ? 'pulse' : ''} ${isTimeUp ? 'time-up' : ''}`}>
+            {position.countsUp ? `+${formatTime(time)}` : formatTime(time)}
+          </div>
+          {showPhase && position.phase && (
+            <div className={`timer-phase-label ${position.phase.kind}`}>
+              {position.phase.label}
+              {!position.countsUp && ` · ${position.index + 1}/${phases.length}`}
+            </div>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="timer-controls">
+          <button
+            onClick={handleToggle}
+            className={`control-btn ${isRunning ? 'pause' : 'play'}`}
+          >
+            {isRunning ? <Pause size={24} /> : <Play size={24} />}
+            <span>{isRunning ? 'Pause' : 'Start'}</span>
+          </button>
+          <button onClick={resetTimer} className="control-btn reset">
+            <RotateCcw size={24} />
+            <span>Reset</span>
+          </button>
+        </div>
+
+        {/* Presets */}
+        <div className="presets">
+          <span className="presets-label">Schnellauswahl:</span>
+          <div className="preset-buttons">
+            {presets.presets.map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => handlePreset(preset)}
+                className={`preset-btn ${presetId === preset.id ? 'active' : ''}`}
+              >
+                {preset.name}
+              </button>
+            ))}
+            <button onClick={() => setShowEditor(true)} className="preset-btn sound-btn" title="Zeitvorgaben bearbeiten">
+              <Pencil size={14} />
+            </button>
+          </div>
+          <div className="sound-controls">
+            <button
+              onClick={sound.toggleMute}
+              className={`preset-btn sound-btn ${sound.muted ? 'muted' : ''}`}
+              title={sound.muted ? 'Ton einschalten' : 'Stummschalten'}
+            >
+              {sound.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+            </button>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={sound.volume}
+              onChange={(e) => sound.setVolume(Number(e.target.value))}
+              disabled={sound.muted}
+              className="volume-slider"
+              title={`Lautstärke ${Math.round(sound.volume * 100)} %`}
+            />
+          </div>
+        </div>
+
+        {/* Custom Time Input */}
+        <div className="custom-time">
+          <span className="presets-label">Eigene Zeit:</span>
+          <div className="custom-time-inputs">
+            <input
+              type="number"
+              min="0"
+              max="99"
+              placeholder="Min"
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              className="time-input"
+            />
+            <span className="time-separator">:</span>
+            <input
+              type="number"
+              min="0"
+              max="59"
+              placeholder="Sek"
+              value={customSeconds}
+              onChange={(e) => setCustomSeconds(e.target.value)}
+              className="time-input"
+            />
+            <button onClick={setCustomTime} className="set-time-btn">
+              Setzen
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {showEditor && (
+        <PresetEditor
+          presets={presets.presets}
+          onSave={(next) => {
+            presets.savePresets(next)
+            setShowEditor(false)
+          }}
+          onClose={() => setShowEditor(false)}
+        />
+      )}
+    </section>
+  )
+}
+
+export default TimerPanel
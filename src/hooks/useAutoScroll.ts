@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react'
+
+const SCROLL_STEP = 1 // pixels per frame
+const SCROLL_INTERVAL = 50 // ms between scroll steps
+const PAUSE_AT_ENDS = 2000 // ms to pause at top/bottom
+const USER_SCROLL_PAUSE = 10000 // ms before auto-scroll resumes after the user scrolled
+
+// Slowly scrolls a container down and up again, e.g. long standings on the beamer.
+// `content` restarts the scrolling when the displayed data changes.
+// `onScrolledThrough` fires when the bottom was reached, or right away when nothing needs scrolling.
+export function useAutoScroll<T extends HTMLElement>(content: unknown, onScrolledThrough?: () => void) {
+  const scrollRef = useRef<T>(null)
+  const onScrolledThroughRef = useRef(onScrolledThrough)
+  const [scrollDirection, setScrollDirection] = useState<'down' | 'up'>('down')
+  const [autoScrollEnabled, setAutoScrollEnabled] = useState(true)
+  const userScrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    onScrolledThroughRef.current = onScrolledThrough
+  })
+
+  useEffect(() => {
+    const scrollContainer = scrollRef.current
+    if (!scrollContainer) return
+    if (!autoScrollEnabled) return
+
+    let isPaused = false
+    let pauseTimeout: ReturnType<typeof setTimeout>
+    let currentDirection = scrollDirection
+
+    const autoScroll = setInterval(() => {
+      if (isPaused) return
+
+      const { scrollTop, scrollHeight, clientHeight } = scrollContainer
+      const maxScroll = scrollHeight - clientHeight
+
+      if (maxScroll <= 0) {
+        // No need to scroll
+        onScrolledThroughRef.current?.()
+        return
+      }
+
+      if (currentDirection === 'down') {
+        if (scrollTop >= maxScroll - 1) {
+          onScrolledThroughRef.current?.()
+          isPaused = true
+          pauseTimeout = setTimeout(() => {
+            currentDirection = 'up'
+            setScrollDirection('up')
+            isPaused = false
+          }, PAUSE_AT_ENDS)
+        } else {
+          scrollContainer.scrollTop = scrollTop + SCROLL_STEP
+        }
+      } else {
+        if (scrollTop <= 1) {
+          isPaused = true
+          pauseTimeout = setTimeout(() => {
+            currentDirection = 'down'
+            setScrollDirection('down')
+            isPaused = false
+          }, PAUSE_AT_ENDS)
+        } else {
+          scrollContainer.scrollTop = scrollTop - SCROLL_STEP
+        }
+      }
+    }, SCROLL_INTERVAL)
+
+    // Handle user scroll - pause auto-scroll for a while
+    const handleUserScroll = () => {
+      setAutoScrollEnabled(false)
+
+      if (userScrollTimeoutRef.current) {
+        clearTimeout(userScrollTimeoutRef.current)
+      }
+
+      userScrollTimeoutRef.current = setTimeout(() => {
+        setAutoScrollEnabled(true)
+      }, USER_SCROLL_PAUSE)
+    }
+
+    scrollContainer.addEventListener('wheel', handleUserScroll)
+    scrollContainer.addEventListener('touchmove', handleUserScroll)
+
+    return () => {
+      clearInterval(autoScroll)
+      clearTimeout(pauseTimeout)
+      scrollContainer.removeEventListener('wheel', handleUserScroll)
+      scrollContainer.removeEventListener('touchmove', handleUserScroll)
+    }
+  }, [scrollDirection, autoScrollEnabled, content])
+
+  return scrollRef
+}
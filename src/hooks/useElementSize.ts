@@ -0,0 +1,28 @@
+import { useState, useEffect, useRef } from 'react'
+
+export interface ElementSize {
+  width: number
+  height: number
+}
+
+// Measures an element and keeps the size up to date while it is resized
+export function useElementSize<T extends HTMLElement>() {
+  const ref = useRef<T>(null)
+  const [size, setSize] = useState<ElementSize | null>(null)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setSize((current) =>
+        current && current.width === width && current.height === height ? current : { width, height }
+      )
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  return [ref, size] as const
+}
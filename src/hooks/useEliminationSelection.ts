@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react'
+import type { EliminationGroup } from '../api/types'
+
+// Time each elimination stays on screen while rotating
+const ROTATION_INTERVAL = 20 * 1000
+
+// Selects one of several eliminations (e.g. A/B bracket or "Trostrunde"),
+// optionally switching to the next one automatically for the beamer.
+// `eliminations` must keep its identity while the data is unchanged.
+export function useEliminationSelection(eliminations: EliminationGroup[]) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [autoRotate, setAutoRotate] = useState(false)
+
+  // Fall back to the first elimination when nothing (or an unknown id) is selected
+  const selected = eliminations.find((e) => e._id === selectedId) ?? eliminations[0] ?? null
+  const canRotate = eliminations.length > 1
+
+  useEffect(() => {
+    if (!autoRotate || !canRotate || !selected) return
+    const timeout = setTimeout(() => {
+      const index = eliminations.indexOf(selected)
+      setSelectedId(eliminations[(index + 1) % eliminations.length]._id)
+    }, ROTATION_INTERVAL)
+    return () => clearTimeout(timeout)
+  }, [autoRotate, canRotate, eliminations, selected])
+
+  // Picking an elimination by hand stops the rotation
+  const select = (id: string) => {
+    setSelectedId(id)
+    setAutoRotate(false)
+  }
+
+  return { selected, select, autoRotate, setAutoRotate, canRotate }
+}
+
+export type EliminationSelection = ReturnType<typeof useEliminationSelection>
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { KioskScene, SceneConfig } from '../settings'
+
+// Scenes that stay until their content has been shown completely (e.g. scrolled through)
+const WAITS_FOR_CONTENT: KioskScene[] = ['standings']
+// Longest a scene may run over its duration while waiting for its content
+const MAX_SCENE_EXTENSION = 60 * 1000
+
+interface SceneState {
+  index: number
+  timeUp: boolean        // The configured duration has passed
+  contentShown: boolean  // The scene reported its content as completely shown
+}
+
+const FIRST_SCENE: SceneState = { index: 0, timeUp: false, contentShown: false }
+
+const toggleFullscreen = (on: boolean) => {
+  if (on && !document.fullscreenElement) {
+    // Needs a user gesture - started from the URL the browser may refuse
+    document.documentElement.requestFullscreen?.().catch(() => {})
+  } else if (!on && document.fullscreenElement) {
+    document.exitFullscreen().catch(() => {})
+  }
+}
+
+// Beamer kiosk mode: rotates through the configured scenes that are available right now.
+// Keys: Space/P pause, arrow keys previous/next scene, F fullscreen, Esc leave.
+export function useKiosk(scenes: SceneConfig[], isAvailable: (scene: KioskScene) => boolean, startActive: boolean) {
+  const [active, setActive] = useState(startActive)
+  const [paused, setPaused] = useState(false)
+  const [sceneState, setSceneState] = useState<SceneState>(FIRST_SCENE)
+
+  const playable = scenes.filter((s) => isAvailable(s.scene))
+  const count = playable.length
+  const current = count > 0 ? playable[((sceneState.index % count) + count) % count] : null
+  const waitsForContent = !!current && WAITS_FOR_CONTENT.includes(current.scene)
+
+  const step = useCallback((delta: number) => {
+    setSceneState((s) => ({ index: s.index + delta, timeUp: false, contentShown: false }))
+  }, [])
+
+  // A scene ends when its time is up and, if it waits for it, its content was shown
+  const finishWhen = useCallback((patch: Partial<SceneState>) => {
+    setSceneState((s) => {
+      const next = { ...s, ...patch }
+      if (next.timeUp === s.timeUp && next.contentShown === s.contentShown) return s
+      if (next.timeUp && (next.contentShown || !waitsForContent)) {
+        return { index: s.index + 1, timeUp: false, contentShown: false }
+      }
+      return next
+    })
+  }, [waitsForContent])
+
+  const reportContentShown = useCallback(() => finishWhen({ contentShown: true }), [finishWhen])
+
+  // Scene duration, restarted when the rotation is resumed
+  const seconds = current?.seconds ?? 0
+  useEffect(() => {
+    if (!active || paused || seconds === 0 || sceneState.timeUp) return
+    const timeout = setTimeout(() => finishWhen({ timeUp: true }), seconds * 1000)
+    return () => clearTimeout(timeout)
+  }, [active, paused, seconds, sceneState.index, sceneState.timeUp, finishWhen])
+
+  // Do not wait forever for content that never reports back
+  useEffect(() => {
+    if (!active || paused || !sceneState.timeUp) return
+    const timeout = setTimeout(() => step(1), MAX_SCENE_EXTENSION)
+    return () => clearTimeout(timeout)
+  }, [active, paused, sceneState.timeUp, step])
+
+  const start = useCallback(() => {
+    setActive(true)
+    setPaused(false)
+    setSceneState(FIRST_SCENE)
+    toggleFullscreen(true)
+  }, [])
+
+  const stop = useCallback(() => {
+    setActive(false)
+    toggleFullscreen(false)
+  }, [])
+
+  // Keyboard control while the kiosk is running
+  useEffect(() => {
+    if (!active) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return
+
+      switch (e.key) {
+        case ' ':
+        case 'p':
+        case 'P':
+          e.preventDefault()
+          setPaused((p) => !p)
+          break
+        case 'ArrowRight':
+          step(1)
+          break
+        case 'ArrowLeft':
+          step(-1)
+          break
+        case 'f':
+        case 'F':
+          toggleFullscreen(!document.fullscreenElement)
+          break
+        case 'Escape':
+          stop()
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [active, step, stop])
+
+  return {
+    active,
+    paused,
+    scene: active ? current : null,
+    sceneKey: sceneState.index,
+    start,
+    stop,
+    togglePause: () => setPaused((p) => !p),
+    reportContentShown,
+  }
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react'
+
+const LOCK_NAME = 'kickerturnier.leader'
+
+export type ScreenRole = 'leader' | 'follower'
+
+// Picks one leader among all windows and tabs of this browser with a Web Lock. The
+// lock is held until the leader closes, then the next waiting window takes over.
+export function useLeaderElection(enabled: boolean): ScreenRole {
+  const [isLeader, setIsLeader] = useState(false)
+  const supported = 'locks' in navigator
+
+  useEffect(() => {
+    if (!enabled || !supported) return
+    const controller = new AbortController()
+
+    navigator.locks.request(LOCK_NAME, { signal: controller.signal }, () => new Promise<void>((resolve) => {
+      setIsLeader(true)
+      controller.signal.addEventListener('abort', () => resolve())
+    })).catch(() => {
+      // Aborted while still waiting for the lock
+    })
+
+    return () => {
+      controller.abort()
+      setIsLeader(false)
+    }
+  }, [enabled, supported])
+
+  return !enabled || !supported || isLeader ? 'leader' : 'follower'
+}
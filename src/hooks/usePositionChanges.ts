@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react'
+import type { Standing } from '../api/types'
+
+export type PositionChange = 'up' | 'down' | 'none'
+
+const computeChanges = (prevStandings: Standing[], standings: Standing[]) => {
+  const prevPositions = new Map(prevStandings.map((team, index) => [team._id, index]))
+  const changes = new Map<string, PositionChange>()
+
+  standings.forEach((team, index) => {
+    if (prevPositions.has(team._id)) {
+      const oldPos = prevPositions.get(team._id)!
+      if (index < oldPos) {
+        changes.set(team._id, 'up')
+      } else if (index > oldPos) {
+        changes.set(team._id, 'down')
+      } else {
+        changes.set(team._id, 'none')
+      }
+    } else {
+      changes.set(team._id, 'none')
+    }
+  })
+
+  return changes
+}
+
+// Track position changes between standings updates for the slide animations.
+// `standings` must keep its identity while the data is unchanged.
+export function usePositionChanges(standings: Standing[]) {
+  const [prevStandings, setPrevStandings] = useState(standings)
+  const [positionChanges, setPositionChanges] = useState<Map<string, PositionChange>>(new Map())
+
+  if (standings !== prevStandings) {
+    setPrevStandings(standings)
+    if (prevStandings.length > 0 && standings.length > 0) {
+      setPositionChanges(computeChanges(prevStandings, standings))
+    }
+  }
+
+  // Clear animation classes after animation completes
+  useEffect(() => {
+    if (positionChanges.size === 0) return
+    const timeout = setTimeout(() => {
+      setPositionChanges(new Map())
+    }, 2500)
+    return () => clearTimeout(timeout)
+  }, [positionChanges])
+
+  return positionChanges
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { getRelayUrl, parseRemoteMessage } from '../remote'
+import type { RemoteMessage } from '../remote'
+
+// Upper limit for the reconnect delay when the relay is not reachable
+const MAX_RECONNECT_DELAY = 60 * 1000
+
+// Connection to the remote control relay. Reconnects with backoff, e.g. after the
+// server was restarted or the phone woke up again. Without a token (remote control
+// switched off) there is no connection at all.
+export function useRemoteRelay(token: string | null, onMessage: (message: RemoteMessage) => void) {
+  const [connected, setConnected] = useState(false)
+  const socketRef = useRef<WebSocket | null>(null)
+  const onMessageRef = useRef(onMessage)
+
+  useEffect(() => {
+    onMessageRef.current = onMessage
+  })
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    let retry: ReturnType<typeof setTimeout> | undefined
+    let failures = 0
+
+    const connect = () => {
+      const socket = new WebSocket(getRelayUrl(token))
+      socketRef.current = socket
+
+      socket.onopen = () => {
+        failures = 0
+        setConnected(true)
+      }
+      socket.onmessage = (event) => {
+        const message = parseRemoteMessage(event.data)
+        if (message) onMessageRef.current(message)
+      }
+      socket.onclose = () => {
+        socketRef.current = null
+        setConnected(false)
+        if (cancelled) return
+        retry = setTimeout(connect, Math.min(1000 * 2 ** failures, MAX_RECONNECT_DELAY))
+        failures++
+      }
+    }
+
+    connect()
+    return () => {
+      cancelled = true
+      clearTimeout(retry)
+      socketRef.current?.close()
+    }
+  }, [token])
+
+  const send = useCallback((message: RemoteMessage) => {
+    const socket = socketRef.current
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }, [])
+
+  return { connected, send }
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import { getFinishedMatches, getTeamPlaces, isUpset } from '../utils/tournament'
+import type { FinishedMatch } from '../utils/tournament'
+import type { TournamentData } from '../api/types'
+
+const HISTORY_SIZE = 12
+
+export interface TickerResult extends FinishedMatch {
+  upset: boolean
+  fresh: boolean  // Came in with the latest change of the data
+}
+
+// Next ticker history. Results that turned valid since the previous data are put in
+// front; upsets are judged by the table before the match. A first load or another
+// tournament starts over with the most recent results.
+const updateResults = (
+  results: TickerResult[],
+  previous: TournamentData | null,
+  current: TournamentData | null,
+): TickerResult[] => {
+  const finished = getFinishedMatches(current)
+  const previousIds = new Set(getFinishedMatches(previous).map(({ match }) => match._id))
+  const sameTournament = !!previous && !!current && previous._id === current._id
+
+  if (!sameTournament) {
+    const places = getTeamPlaces(current)
+    return finished.slice(0, HISTORY_SIZE).map((result) => ({ ...result, upset: isUpset(result, places), fresh: false }))
+  }
+
+  // Keep the older entries up to date, a corrected score replaces the old one
+  const byId = new Map(finished.map((result) => [result.match._id, result]))
+  const kept = results
+    .filter(({ match }) => byId.has(match._id))
+    .map(({ match, upset }) => ({ ...byId.get(match._id)!, upset, fresh: false }))
+
+  const places = getTeamPlaces(previous)
+  const added = finished
+    .filter(({ match }) => !previousIds.has(match._id))
+    .map((result) => ({ ...result, upset: isUpset(result, places), fresh: true }))
+
+  return [...added, ...kept].slice(0, HISTORY_SIZE)
+}
+
+// Latest results for the ticker, newest first
+export function useResultsTicker(tournamentData: TournamentData | null): TickerResult[] {
+  const [results, setResults] = useState<TickerResult[]>([])
+  const [prevData, setPrevData] = useState<TournamentData | null>(null)
+
+  if (tournamentData !== prevData) {
+    setPrevData(tournamentData)
+    setResults(updateResults(results, prevData, tournamentData))
+  }
+
+  return results
+}
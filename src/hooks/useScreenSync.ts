@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { TournamentData, TournamentInfo } from '../api/types'
+import type { TimerState } from './useTimer'
+import type { ScreenRole } from './useLeaderElection'
+
+const CHANNEL_NAME = 'kickerturnier.sync'
+
+// Tournament state as returned by useTournament, minus the functions
+export interface TournamentSnapshot {
+  tournaments: TournamentInfo[]
+  pageName: string
+  selectedTournamentId: string
+  tournamentData: TournamentData | null
+  isLoading: boolean
+  error: string | null
+  updateError: string | null
+  lastUpdated: number | null
+}
+
+type TournamentContent = Pick<TournamentSnapshot, 'tournaments' | 'pageName' | 'selectedTournamentId' | 'tournamentData'>
+type TournamentStatus = Pick<TournamentSnapshot, 'isLoading' | 'error' | 'updateError' | 'lastUpdated'>
+
+// Content and status are sent separately, so the data keeps its identity on the
+// followers while only the "last updated" time changes
+type SyncMessage =
+  | { type: 'hello' }  // A new follower asks the leader for everything
+  | { type: 'tournament'; content: TournamentContent }
+  | { type: 'status'; status: TournamentStatus }
+  | { type: 'timer'; state: TimerState }
+  | { type: 'selectTournament'; tournamentId: string }
+
+const WAITING_FOR_LEADER: TournamentSnapshot = {
+  tournaments: [],
+  pageName: 'Kickerturnier',
+  selectedTournamentId: '',
+  tournamentData: null,
+  isLoading: true,
+  error: null,
+  updateError: null,
+  lastUpdated: null,
+}
+
+interface ScreenSyncOptions {
+  enabled: boolean
+  role: ScreenRole
+  tournament: TournamentSnapshot & { setSelectedTournamentId: (id: string) => void }
+  timerState: TimerState
+  applyTimerState: (state: TimerState) => void
+}
+
+// Keeps several windows of this browser in step over a BroadcastChannel: the leader
+// polls Kickertool and shares the tournament, the followers show what it sends. The
+// timer is shared both ways, so it can be started from any window.
+export function useScreenSync({ enabled, role, tournament, timerState, applyTimerState }: ScreenSyncOptions) {
+  const [leaderSnapshot, setLeaderSnapshot] = useState<TournamentSnapshot | null>(null)
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  const lastTimerRef = useRef(timerState)
+  const receivedTimerRef = useRef<TimerState | null>(null)
+
+  const { tournaments, pageName, selectedTournamentId, tournamentData, isLoading, error, updateError, lastUpdated, setSelectedTournamentId } = tournament
+  const active = enabled && 'BroadcastChannel' in window
+
+  // Latest values for the message handler
+  const latestRef = useRef({ role, tournament, timerState, applyTimerState })
+  useEffect(() => {
+    latestRef.current = { role, tournament, timerState, applyTimerState }
+  })
+
+  const post = useCallback((message: SyncMessage) => channelRef.current?.postMessage(message), [])
+
+  useEffect(() => {
+    if (!active) return
+    const channel = new BroadcastChannel(CHANNEL_NAME)
+    channelRef.current = channel
+
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const message = event.data
+      const latest = latestRef.current
+      switch (message.type) {
+        case 'hello': {
+          if (latest.role !== 'leader') return
+          const { tournaments, pageName, selectedTournamentId, tournamentData, isLoading, error, updateError, lastUpdated } = latest.tournament
+          channel.postMessage({ type: 'tournament', content: { tournaments, pageName, selectedTournamentId, tournamentData } })
+          channel.postMessage({ type: 'status', status: { isLoading, error, updateError, lastUpdated } })
+          channel.postMessage({ type: 'timer', state: latest.timerState })
+          return
+        }
+        case 'tournament':
+          if (latest.role !== 'follower') return
+          setLeaderSnapshot((s) => ({ ...(s ?? WAITING_FOR_LEADER), ...message.content }))
+          // Remember the selection in case this window has to take over
+          latest.tournament.setSelectedTournamentId(message.content.selectedTournamentId)
+          return
+        case 'status':
+          if (latest.role !== 'follower') return
+          setLeaderSnapshot((s) => ({ ...(s ?? WAITING_FOR_LEADER), ...message.status }))
+          return
+        case 'timer':
+          receivedTimerRef.current = message.state
+          latest.applyTimerState(message.state)
+          return
+        case 'selectTournament':
+          if (latest.role === 'leader') latest.tournament.setSelectedTournamentId(message.tournamentId)
+          return
+      }
+    }
+
+    return () => {
+      channel.close()
+      channelRef.current = null
+    }
+  }, [active])
+
+  // A new follower needs the current state of the leader
+  useEffect(() => {
+    if (active && role === 'follower') post({ type: 'hello' })
+  }, [active, role, post])
+
+  // Leader: share the tournament whenever it changes
+  useEffect(() => {
+    if (role !== 'leader') return
+    post({ type: 'tournament', content: { tournaments, pageName, selectedTournamentId, tournamentData } })
+  }, [role, post, tournaments, pageName, selectedTournamentId, tournamentData])
+
+  useEffect(() => {
+    if (role !== 'leader') return
+    post({ type: 'status', status: { isLoading, error, updateError, lastUpdated } })
+  }, [role, post, isLoading, error, updateError, lastUpdated])
+
+  // Any window: share timer changes made here, but not the ones received from others
+  useEffect(() => {
+    if (timerState === lastTimerRef.current) return
+    lastTimerRef.current = timerState
+    if (timerState !== receivedTimerRef.current) post({ type: 'timer', state: timerState })
+  }, [timerState, post])
+
+  // Followers ask the leader to switch the tournament
+  const selectTournament = useCallback((tournamentId: string) => {
+    setSelectedTournamentId(tournamentId)
+    if (role === 'follower') post({ type: 'selectTournament', tournamentId })
+  }, [role, post, setSelectedTournamentId])
+
+  return {
+    tournament: role === 'follower' ? leaderSnapshot ?? WAITING_FOR_LEADER : tournament,
+    selectTournament,
+  }
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react'
+
+const STORAGE_KEY = 'kickerturnier.sound'
+const DEFAULT_VOLUME = 0.8
+
+interface SoundState {
+  muted: boolean
+  volume: number  // 0..1
+}
+
+const loadSoundState = (): SoundState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    if (stored && typeof stored.muted === 'boolean' && Number.isFinite(stored.volume)) {
+      return { muted: stored.muted, volume: Math.min(1, Math.max(0, stored.volume)) }
+    }
+  } catch {
+    // Ignore broken storage
+  }
+  return { muted: false, volume: DEFAULT_VOLUME }
+}
+
+// Mute switch and volume for the timer signals, remembered in the browser
+export function useSoundControls() {
+  const [state, setState] = useState(loadSoundState)
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    } catch (err) {
+      console.error('Error saving sound settings:', err)
+    }
+  }, [state])
+
+  return {
+    muted: state.muted,
+    volume: state.volume,
+    toggleMute: () => setState((s) => ({ ...s, muted: !s.muted })),
+    setVolume: (volume: number) => setState((s) => ({ ...s, volume, muted: volume === 0 ? s.muted : false })),
+  }
+}
+
+export type SoundControls = ReturnType<typeof useSoundControls>
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { updateTableTimers } from './useTableTimers'
+import type { TableTimerState } from './useTableTimers'
+import type { Match } from '../api/types'
+
+const match = (_id: string): Match => ({
+  _id,
+  team1: { name: 'A' },
+  team2: { name: 'B' },
+  result: [0, 0],
+  valid: false,
+  timeEnd: null,
+  tables: [{ _id: `table-${_id}`, name: 'Tisch 1' }],
+})
+
+// Start times as restored from localStorage after a reload
+const restored: TableTimerState = { starts: { m1: 1000, m2: 2000 }, matchKey: null }
+
+describe('updateTableTimers', () => {
+  it('keeps the restored timers until the first data is loaded', () => {
+    expect(updateTableTimers(restored, null, true, 5000)).toBe(restored)
+  })
+
+  it('keeps the start of matches that are still on their table', () => {
+    const state = updateTableTimers(restored, [match('m1'), match('m3')], true, 5000)
+    expect(state).toEqual({ starts: { m1: 1000, m3: 5000 }, matchKey: 'm1,m3' })
+  })
+
+  it('drops the restored timers when the first data has no current matches', () => {
+    const loaded = updateTableTimers(updateTableTimers(restored, null, true, 5000), [], true, 5000)
+    expect(loaded).toEqual({ starts: {}, matchKey: '' })
+
+    // The matches get a table again later and start over instead of resuming the old timers
+    const later = updateTableTimers(loaded, [match('m1')], true, 9000)
+    expect(later.starts).toEqual({ m1: 9000 })
+  })
+
+  it('drops all timers while they are switched off', () => {
+    expect(updateTableTimers(restored, null, false, 5000)).toEqual({ starts: {}, matchKey: '' })
+  })
+})
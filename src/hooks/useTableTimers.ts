@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react'
+import type { Match } from '../api/types'
+
+const STORAGE_KEY = 'kickerturnier.tableTimers'
+
+export interface TableTimer {
+  remaining: number  // Seconds left, negative once the match runs over time
+  overdue: boolean
+}
+
+// Countdowns of the current matches by match _id
+export type TableTimers = Record<string, TableTimer>
+
+// Start time in ms of every match that is on a table, by match _id
+type StartTimes = Record<string, number>
+
+const loadStartTimes = (): StartTimes => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    if (stored && typeof stored === 'object') {
+      return Object.fromEntries(Object.entries(stored).filter(([, start]) => Number.isFinite(start))) as StartTimes
+    }
+  } catch {
+    // Ignore broken storage and start fresh
+  }
+  return {}
+}
+
+// Keep the start of matches that are still on a table, start the new ones now
+// and forget the ones that were finished (valid) or taken off their table
+const reconcile = (starts: StartTimes, matchIds: string[], now: number): StartTimes => {
+  const next: StartTimes = {}
+  matchIds.forEach((id) => { next[id] = starts[id] ?? now })
+  const unchanged = matchIds.length === Object.keys(starts).length && matchIds.every((id) => id in starts)
+  return unchanged ? starts : next
+}
+
+export interface TableTimerState {
+  starts: StartTimes
+  matchKey: string | null  // Current matches the starts were reconciled with, null before the first data
+}
+
+// Reconcile when the set of current matches changes. Until the first data is loaded
+// (`currentMatches` null) the timers restored from storage are kept as they are; the
+// first data is always reconciled, even without current matches.
+export const updateTableTimers = (
+  state: TableTimerState,
+  currentMatches: Match[] | null,
+  enabled: boolean,
+  now: number,
+): TableTimerState => {
+  if (enabled && currentMatches === null) return state
+  const matchKey = enabled && currentMatches ? currentMatches.map((m) => m._id).join(',') : ''
+  if (matchKey === state.matchKey) return state
+  return { starts: reconcile(state.starts, matchKey ? matchKey.split(',') : [], now), matchKey }
+}
+
+// One countdown per current match. A match's timer starts when it first shows up with
+// a table assigned and stops when Kickertool reports it as valid. The start times are
+// persisted so a reload does not restart the running matches.
+export function useTableTimers(currentMatches: Match[] | null, durationSeconds: number, now: number, enabled: boolean): TableTimers {
+  const [state, setState] = useState<TableTimerState>(() => ({ starts: loadStartTimes(), matchKey: null }))
+  const next = updateTableTimers(state, currentMatches, enabled, now)
+  if (next !== state) setState(next)
+  const { starts } = next
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(starts))
+    } catch (err) {
+      console.error('Error saving table timers:', err)
+    }
+  }, [starts])
+
+  const timers: TableTimers = {}
+  Object.entries(starts).forEach(([id, start]) => {
+    const remaining = durationSeconds - Math.floor(Math.max(0, now - start) / 1000)
+    timers[id] = { remaining, overdue: remaining < 0 }
+  })
+  return timers
+}
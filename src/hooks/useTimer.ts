@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { getTimerPosition, getTotalSeconds, parsePhases, singlePhase } from '../utils/timerFormat'
+import type { TimerPhase, TimerPosition } from '../utils/timerFormat'
+import type { TimerCue } from '../utils/sounds'
+
+const STORAGE_KEY = 'kickerturnier.timer'
+const TICK_INTERVAL = 250 // ms between display updates while running
+const WARNING_AT = 60     // Seconds left for the one-minute warning
+const COUNTDOWN_FROM = 10 // Seconds left when the final countdown starts
+
+// The timer is stored as timestamps, not as a ticking counter, so it cannot drift
+// when the tab is throttled and survives a page reload mid-match
+export interface TimerState {
+  phases: TimerPhase[]        // Match format, a single phase for a plain countdown
+  presetId: string | null     // Preset the format came from
+  startedAt: number | null    // Wall-clock ms the format would have started at without pauses, while running
+  elapsedMs: number           // Time played while stopped
+}
+
+const stoppedState = (phases: TimerPhase[], presetId: string | null = null): TimerState =>
+  ({ phases, presetId, startedAt: null, elapsedMs: 0 })
+
+const loadTimerState = (defaultSeconds: number): TimerState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    const phases = parsePhases(stored?.phases)
+    if (
+      phases &&
+      (stored.startedAt === null || Number.isFinite(stored.startedAt)) &&
+      Number.isFinite(stored.elapsedMs)
+    ) {
+      const presetId = typeof stored.presetId === 'string' ? stored.presetId : null
+      return { phases, presetId, startedAt: stored.startedAt, elapsedMs: Math.max(0, stored.elapsedMs) }
+    }
+  } catch {
+    // Ignore broken storage and start fresh
+  }
+  return stoppedState(singlePhase(defaultSeconds))
+}
+
+const getElapsed = (state: TimerState, now: number) =>
+  state.startedAt === null ? state.elapsedMs : Math.max(0, now - state.startedAt)
+
+// Signal due when the timer moves from `previous` to `next`
+const getCue = (previous: TimerPosition, next: TimerPosition): TimerCue | null => {
+  if (next.finished) return previous.finished ? null : 'end'
+  if (next.index !== previous.index) return 'phase'
+  if (next.countsUp || next.seconds === previous.seconds) return null
+  if (next.seconds <= COUNTDOWN_FROM) return 'countdown'
+  if (previous.seconds > WARNING_AT && next.seconds <= WARNING_AT) return 'warning'
+  return null
+}
+
+// Match timer running through the phases of a format. `onCue` is called for the
+// one-minute warning, each second of a final countdown, every change of phase
+// and when the time is up.
+export function useTimer(defaultSeconds = 10 * 60, onCue?: (cue: TimerCue) => void) {
+  const [state, setState] = useState(() => loadTimerState(defaultSeconds))
+  const [now, setNow] = useState(() => Date.now())
+  const onCueRef = useRef(onCue)
+
+  const position = getTimerPosition(state.phases, getElapsed(state, now))
+  const isRunning = state.startedAt !== null && !position.finished
+
+  useEffect(() => {
+    onCueRef.current = onCue
+  })
+
+  // Re-render while running; the position is always computed from the start timestamp
+  const { phases, startedAt } = state
+  useEffect(() => {
+    if (!isRunning || startedAt === null) return
+    let previous = getTimerPosition(phases, Date.now() - startedAt)
+
+    const interval = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      const next = getTimerPosition(phases, current - startedAt)
+      const cue = getCue(previous, next)
+      if (cue) onCueRef.current?.(cue)
+      previous = next
+      // Time is up - stop so the timer no longer counts as running
+      if (next.finished) {
+        setState((s) => s.startedAt === startedAt ? { ...s, startedAt: null, elapsedMs: current - startedAt } : s)
+      }
+    }, TICK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [isRunning, phases, startedAt])
+
+  // Persist so an accidental reload resumes the running match
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    } catch (err) {
+      console.error('Error saving timer:', err)
+    }
+  }, [state])
+
+  const toggleTimer = useCallback(() => {
+    const current = Date.now()
+    setNow(current)
+    setState((s) => {
+      const elapsedMs = getElapsed(s, current)
+      // A finished timer stays at zero until it is reset or gets a new format
+      if (getTimerPosition(s.phases, elapsedMs).finished) return s
+      if (s.startedAt !== null) {
+        // Pause - keep the time played for later
+        return { ...s, startedAt: null, elapsedMs }
+      }
+      return { ...s, startedAt: current - s.elapsedMs }
+    })
+  }, [])
+
+  const resetTimer = useCallback(() => {
+    setState((s) => stoppedState(s.phases, s.presetId))
+  }, [])
+
+  // Stop the timer and start over with a new format
+  const setFormat = useCallback((phases: TimerPhase[], presetId: string | null = null) => {
+    if (getTotalSeconds(phases) <= 0) return
+    setState(stoppedState(phases, presetId))
+  }, [])
+
+  // Plain countdown of the given length
+  const setDuration = useCallback((totalSeconds: number) => {
+    if (totalSeconds <= 0) return
+    setFormat(singlePhase(totalSeconds))
+  }, [setFormat])
+
+  // Take over the timer of another window (screen sync)
+  const applyState = useCallback((next: TimerState) => {
+    setNow(Date.now())
+    setState(next)
+  }, [])
+
+  return {
+    time: position.seconds,
+    isRunning,
+    initialTime: getTotalSeconds(state.phases),
+    position,
+    phases: state.phases,
+    presetId: state.presetId,
+    state,
+    toggleTimer,
+    resetTimer,
+    setDuration,
+    setFormat,
+    applyState,
+  }
+}
+
+export type TimerControls = ReturnType<typeof useTimer>
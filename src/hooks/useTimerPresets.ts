@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react'
+import { DEFAULT_PRESETS, parsePresets } from '../utils/timerFormat'
+import type { TimerPreset } from '../utils/timerFormat'
+
+const STORAGE_KEY = 'kickerturnier.presets'
+
+const loadPresets = (): TimerPreset[] => {
+  try {
+    const stored = parsePresets(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'))
+    if (stored && stored.length > 0) return stored
+  } catch {
+    // Ignore broken storage
+  }
+  return DEFAULT_PRESETS
+}
+
+// Timer presets from the preset editor, remembered in the browser
+export function useTimerPresets() {
+  const [presets, setPresets] = useState(loadPresets)
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+    } catch (err) {
+      console.error('Error saving timer presets:', err)
+    }
+  }, [presets])
+
+  return { presets, savePresets: setPresets }
+}
+
+export type TimerPresets = ReturnType<typeof useTimerPresets>
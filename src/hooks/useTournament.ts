@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { fetchPage, pollTournament, getErrorMessage, isAbortError, INITIAL_POLL_STATE } from '../api/kickertool'
+import type { PollState } from '../api/kickertool'
+import type { TournamentData, TournamentInfo } from '../api/types'
+import type { DisplaySettings } from '../settings'
+
+// Upper limit for the retry delay when Kickertool is not reachable
+const MAX_POLL_BACKOFF = 2 * 60 * 1000
+
+type TournamentSource = Pick<DisplaySettings, 'pageSlug' | 'tournamentId' | 'pollInterval'>
+
+// Loads the tournament list of a Kickertool page and keeps the selected tournament up to date.
+// `paused` stops all requests, e.g. while another window fetches for this one (screen sync).
+export function useTournament({ pageSlug, tournamentId, pollInterval }: TournamentSource, paused = false) {
+  const [tournamentData, setTournamentData] = useState<TournamentData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Polling state - keep showing the last good data while updates fail
+  const [updateError, setUpdateError] = useState<string | null>(null)
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+  const pollNowRef = useRef<(() => void) | null>(null)
+
+  // Tournament selection state
+  const [tournaments, setTournaments] = useState<TournamentInfo[]>([])
+  const [selectedTournamentId, setSelectedTournamentId] = useState<string>(tournamentId)
+  const [pageName, setPageName] = useState<string>('Kickerturnier')
+
+  // Start over when the page or the pinned tournament is changed in the settings.
+  // An empty id lets fetchTournamentsList pick the newest tournament again.
+  const [source, setSource] = useState({ pageSlug, tournamentId })
+  if (source.pageSlug !== pageSlug || source.tournamentId !== tournamentId) {
+    if (source.pageSlug !== pageSlug) {
+      setTournaments([])
+      setTournamentData(null)
+      setIsLoading(true)
+    }
+    setSelectedTournamentId(tournamentId)
+    setSource({ pageSlug, tournamentId })
+  }
+
+  // Fetch tournaments list
+  const fetchTournamentsList = useCallback(async () => {
+    try {
+      const data = await fetchPage(pageSlug)
+      setTournaments(data.tournaments)
+      setPageName(data.name || 'Kickerturnier')
+      setError(null)
+
+      // Select the most recent tournament by default. The selection is read in the
+      // update, so choosing a tournament does not fetch the list again.
+      if (data.tournaments.length > 0) {
+        const sortedTournaments = [...data.tournaments].sort(
+          (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+        )
+        setSelectedTournamentId((selected) => selected || sortedTournaments[0]._id)
+      }
+    } catch (err) {
+      console.error('Error fetching tournaments list:', err)
+      setError(getErrorMessage(err, 'Fehler beim Laden der Turnierliste - bitte Seite neu laden'))
+    }
+  }, [pageSlug])
+
+  // Fetch tournaments list on mount, and again when the pinned tournament is
+  // cleared in the settings so the newest one gets selected
+  useEffect(() => {
+    if (!paused) fetchTournamentsList()
+  }, [fetchTournamentsList, paused, tournamentId])
+
+  // Fetch tournament data when selection changes and poll for updates.
+  // Unchanged responses are skipped, failures back off exponentially and
+  // polling pauses while the tab is hidden.
+  useEffect(() => {
+    if (!selectedTournamentId || paused) return
+
+    let cancelled = false
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    let controller: AbortController | null = null
+    let pollState: PollState = INITIAL_POLL_STATE
+    let failures = 0
+
+    const scheduleNext = () => {
+      clearTimeout(timeout)
+      if (cancelled || document.hidden) return
+      const delay = Math.min(pollInterval * 1000 * 2 ** failures, MAX_POLL_BACKOFF)
+      timeout = setTimeout(poll, delay)
+    }
+
+    const poll = async () => {
+      clearTimeout(timeout)
+      controller?.abort()
+      controller = new AbortController()
+
+      try {
+        const result = await pollTournament(selectedTournamentId, pollState, { signal: controller.signal })
+        if (cancelled) return
+        pollState = result.state
+        if (result.changed) setTournamentData(result.data)
+        setLastUpdated(Date.now())
+        setUpdateError(null)
+        failures = 0
+      } catch (err) {
+        if (cancelled || isAbortError(err)) return
+        failures++
+        setUpdateError(getErrorMessage(err, 'Fehler beim Laden der Turnierdaten'))
+        console.error(err)
+      }
+
+      setIsLoading(false)
+      scheduleNext()
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        clearTimeout(timeout)
+      } else {
+        poll()
+      }
+    }
+
+    pollNowRef.current = () => {
+      failures = 0
+      poll()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    setIsLoading(true)
+    poll()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+      controller?.abort()
+      pollNowRef.current = null
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [selectedTournamentId, pollInterval, paused])
+
+  const refresh = useCallback(() => pollNowRef.current?.(), [])
+
+  return {
+    tournaments,
+    pageName,
+    selectedTournamentId,
+    setSelectedTournamentId,
+    tournamentData,
+    isLoading,
+    // Without any data an update error is shown instead of the views
+    error: error || (tournamentData ? null : updateError),
+    updateError,
+    lastUpdated,
+    refresh,
+  }
+}
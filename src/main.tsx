@@ -2,9 +2,12 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import RemoteControl from './components/RemoteControl.tsx'
+import { isRemoteRoute } from './remote.ts'
 
+// /remote is the phone controller for the display
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isRemoteRoute() ? <RemoteControl /> : <App />}
   </StrictMode>,
 )
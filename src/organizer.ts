@@ -0,0 +1,13 @@
+// Organizer configuration - shown on the certificates, customize this for your tournament
+
+export interface OrganizerConfig {
+  name: string
+  logo: string  // URL to logo image
+  signature: string  // Caption below the signature line
+}
+
+export const ORGANIZER: OrganizerConfig = {
+  name: 'Fachschaft EIT',
+  logo: '/logo.svg',  // Place your logo in the public folder
+  signature: 'Turnierleitung',
+}
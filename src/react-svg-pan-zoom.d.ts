@@ -0,0 +1,37 @@
+// Minimal typings for the parts of react-svg-pan-zoom used by the bracket viewer
+declare module 'react-svg-pan-zoom' {
+  import type { Component, CSSProperties, ReactElement } from 'react'
+
+  export type Tool = 'auto' | 'none' | 'pan' | 'zoom-in' | 'zoom-out'
+  export type AlignX = 'center' | 'left' | 'right'
+  export type AlignY = 'center' | 'top' | 'bottom'
+  type Position = 'none' | 'top' | 'right' | 'bottom' | 'left'
+
+  export const TOOL_AUTO: 'auto'
+  export const ALIGN_CENTER: 'center'
+  export const POSITION_NONE: 'none'
+
+  export interface UncontrolledReactSVGPanZoomProps {
+    width: number
+    height: number
+    defaultTool?: Tool
+    background?: string
+    SVGBackground?: string
+    className?: string
+    style?: CSSProperties
+    detectAutoPan?: boolean
+    preventPanOutside?: boolean
+    scaleFactor?: number
+    scaleFactorMin?: number
+    scaleFactorMax?: number
+    scaleFactorOnWheel?: number
+    toolbarProps?: { position?: Position }
+    miniatureProps?: { position?: Position }
+    children: ReactElement
+  }
+
+  export class UncontrolledReactSVGPanZoom extends Component<UncontrolledReactSVGPanZoomProps> {
+    fitToViewer(SVGAlignX?: AlignX, SVGAlignY?: AlignY): void
+    zoomOnViewerCenter(scaleFactor: number): void
+  }
+}
@@ -0,0 +1,120 @@
+// Remote control protocol - the display and the controller on /remote talk through
+// the WebSocket relay in server/remoteRelay.js
+
+import { DISPLAY_MODES } from './settings'
+import type { DisplayMode } from './settings'
+
+// Same path as REMOTE_RELAY_PATH in server/remoteRelay.js
+const RELAY_PATH = '/remote-relay'
+const REMOTE_ROUTE = '/remote'
+const TOKEN_STORAGE_KEY = 'kickerturnier.remoteToken'
+
+// Same as TOKEN_PATTERN in server/remoteRelay.js
+const REMOTE_TOKEN_PATTERN = /^[\w-]{16,128}$/
+
+// What the display reports to the controllers whenever it changes
+export interface RemoteState {
+  time: number         // Seconds left in the current phase of the match timer
+  isRunning: boolean
+  initialTime: number  // Match length in seconds
+  phaseLabel: string | null  // Current phase of a multi-phase format
+  presets: { id: string; name: string }[]
+  presetId: string | null
+  displayMode: DisplayMode
+  kioskActive: boolean
+  tournaments: { _id: string; name: string }[]
+  selectedTournamentId: string
+}
+
+export type RemoteCommand =
+  | { action: 'toggleTimer' }
+  | { action: 'resetTimer' }
+  | { action: 'setPreset'; presetId: string }
+  | { action: 'setDisplayMode'; mode: DisplayMode }
+  | { action: 'setKiosk'; active: boolean }
+  | { action: 'selectTournament'; tournamentId: string }
+
+export type RemoteMessage =
+  | { type: 'state'; state: RemoteState }
+  | { type: 'command'; command: RemoteCommand }
+
+export const isRemoteRoute = () => window.location.pathname.replace(/\/+$/, '') === REMOTE_ROUTE
+
+// The relay only forwards between clients with the same token
+export const getRelayUrl = (token: string) =>
+  `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${RELAY_PATH}?token=${encodeURIComponent(token)}`
+
+// Pairing token of this display - made up once and kept, so the link on the phone stays valid
+export const loadRemoteToken = (): string => {
+  try {
+    const stored = localStorage.getItem(TOKEN_STORAGE_KEY)
+    if (stored && REMOTE_TOKEN_PATTERN.test(stored)) return stored
+  } catch {
+    // Storage not available - the token only lives until the page is reloaded
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  const token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+  try {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token)
+  } catch (err) {
+    console.error('Error saving remote token:', err)
+  }
+  return token
+}
+
+// Link for the phone, which takes the token from the URL
+export const getRemoteLink = (token: string) =>
+  `${window.location.origin}${REMOTE_ROUTE}?token=${encodeURIComponent(token)}`
+
+export const getRemoteToken = (): string | null => {
+  const token = new URLSearchParams(window.location.search).get('token')
+  return token && REMOTE_TOKEN_PATTERN.test(token) ? token : null
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+const isCommand = (value: unknown): value is RemoteCommand => {
+  if (!isObject(value)) return false
+  switch (value.action) {
+    case 'toggleTimer':
+    case 'resetTimer':
+      return true
+    case 'setPreset':
+      return typeof value.presetId === 'string'
+    case 'setDisplayMode':
+      return (DISPLAY_MODES as unknown[]).includes(value.mode)
+    case 'setKiosk':
+      return typeof value.active === 'boolean'
+    case 'selectTournament':
+      return typeof value.tournamentId === 'string'
+    default:
+      return false
+  }
+}
+
+const isState = (value: unknown): value is RemoteState =>
+  isObject(value) &&
+  typeof value.time === 'number' &&
+  typeof value.isRunning === 'boolean' &&
+  typeof value.initialTime === 'number' &&
+  (value.phaseLabel === null || typeof value.phaseLabel === 'string') &&
+  Array.isArray(value.presets) &&
+  (value.presetId === null || typeof value.presetId === 'string') &&
+  (DISPLAY_MODES as unknown[]).includes(value.displayMode) &&
+  typeof value.kioskActive === 'boolean' &&
+  Array.isArray(value.tournaments) &&
+  typeof value.selectedTournamentId === 'string'
+
+// Messages come from another device - ignore what does not fit the protocol
+export const parseRemoteMessage = (data: unknown): RemoteMessage | null => {
+  if (typeof data !== 'string') return null
+  try {
+    const message = JSON.parse(data)
+    if (message?.type === 'state' && isState(message.state)) return message
+    if (message?.type === 'command' && isCommand(message.command)) return message
+  } catch {
+    // Not JSON
+  }
+  return null
+}
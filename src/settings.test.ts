@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_SETTINGS, loadSettings } from './settings'
+
+// Stubs localStorage with the given raw settings value and an empty URL
+const stubStorage = (raw: string | null) => {
+  vi.stubGlobal('localStorage', { getItem: () => raw })
+  vi.stubGlobal('window', { location: { search: '' } })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('loadSettings', () => {
+  it.each(['null', '42', '"standings"', 'true', '[1, 2]', '{', ''])('falls back to the defaults for %j', (raw) => {
+    stubStorage(raw)
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS)
+  })
+
+  it('uses the stored settings', () => {
+    stubStorage(JSON.stringify({ ticker: !DEFAULT_SETTINGS.ticker }))
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, ticker: !DEFAULT_SETTINGS.ticker })
+  })
+})
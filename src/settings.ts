@@ -0,0 +1,213 @@
+// Display settings - resolved from URL parameters, then localStorage, then defaults
+
+import { TIMER_CUES } from './utils/sounds'
+import type { TimerCue } from './utils/sounds'
+
+export type DisplayMode = 'standings' | 'tables' | 'bracket' | 'results'
+
+// Scenes of the beamer kiosk mode - the display modes plus a few full screen slides
+export type KioskScene = DisplayMode | 'matches' | 'sponsor'
+
+export interface SceneConfig {
+  scene: KioskScene
+  seconds: number  // How long the scene stays on screen
+}
+
+export interface DisplaySettings {
+  pageSlug: string        // Kickertool page slug (from your Kickertool URL)
+  tournamentId: string    // Pinned tournament _id, empty = newest tournament of the page
+  displayMode: DisplayMode
+  pollInterval: number    // Seconds between tournament data refreshes
+  queueLength: number     // Matches shown under "Nächste Spiele"
+  kiosk: boolean          // Start in kiosk mode
+  kioskScenes: SceneConfig[]  // Scenes in rotation order
+  soundCues: TimerCue[]   // Timer signals that play a sound
+  tableTimers: boolean    // Own countdown on every current match card
+  ticker: boolean         // Scrolling bar with the latest results
+  sync: boolean           // Share data and timer with other windows of this browser
+  remote: boolean         // Accept commands from a phone on /remote (needs the relay server)
+}
+
+export const DEFAULT_SETTINGS: DisplaySettings = {
+  pageSlug: 'fseithka',
+  tournamentId: '',
+  displayMode: 'standings',
+  pollInterval: 10,
+  queueLength: 8,
+  kiosk: false,
+  kioskScenes: [
+    { scene: 'standings', seconds: 30 },
+    { scene: 'matches', seconds: 15 },
+    { scene: 'bracket', seconds: 20 },
+    { scene: 'sponsor', seconds: 10 },
+  ],
+  soundCues: TIMER_CUES,
+  tableTimers: false,
+  ticker: true,
+  sync: false,
+  remote: false,
+}
+
+export const DISPLAY_MODES: DisplayMode[] = ['standings', 'tables', 'bracket', 'results']
+
+export const KIOSK_SCENES: KioskScene[] = ['standings', 'matches', 'tables', 'bracket', 'results', 'sponsor']
+
+const STORAGE_KEY = 'kickerturnier.settings'
+
+// Query parameter names, e.g. ?page=xyz&tournament=abc&mode=bracket&interval=15&queue=6
+// or ?kiosk=1&scenes=standings:30,bracket:20,sponsor:10&sounds=warning,end&tabletimers=1&ticker=0&sync=1&remote=1
+const URL_PARAMS = {
+  pageSlug: 'page',
+  tournamentId: 'tournament',
+  displayMode: 'mode',
+  pollInterval: 'interval',
+  queueLength: 'queue',
+  kiosk: 'kiosk',
+  kioskScenes: 'scenes',
+  soundCues: 'sounds',
+  tableTimers: 'tabletimers',
+  ticker: 'ticker',
+  sync: 'sync',
+  remote: 'remote',
+} as const
+
+const MIN_POLL_INTERVAL = 2
+export const MAX_QUEUE_LENGTH = 30
+export const MIN_SCENE_SECONDS = 5
+
+const isDisplayMode = (value: unknown): value is DisplayMode =>
+  typeof value === 'string' && (DISPLAY_MODES as string[]).includes(value)
+
+const isKioskScene = (value: unknown): value is KioskScene =>
+  typeof value === 'string' && (KIOSK_SCENES as string[]).includes(value)
+
+const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value
+  if (value === '' || value === '1' || value === 'true') return true  // '' for a bare ?kiosk
+  if (value === '0' || value === 'false') return false
+  return null
+}
+
+// Cue list from storage (array) or the URL ("warning,end", empty for none)
+const parseCues = (value: unknown): TimerCue[] | null => {
+  if (typeof value !== 'string' && !Array.isArray(value)) return null
+  const entries: unknown[] = typeof value === 'string' ? value.split(',').map((cue) => cue.trim()) : value
+  return TIMER_CUES.filter((cue) => entries.includes(cue))
+}
+
+// Scene list from storage (array of objects) or the URL ("standings:30,bracket:20")
+const parseScenes = (value: unknown): SceneConfig[] | null => {
+  const entries: unknown[] = typeof value === 'string'
+    ? value.split(',').map((part) => {
+      const [scene, seconds] = part.split(':')
+      return { scene: scene.trim(), seconds }
+    })
+    : Array.isArray(value) ? value : []
+
+  const scenes: SceneConfig[] = []
+  entries.forEach((entry) => {
+    if (typeof entry !== 'object' || entry === null) return
+    const { scene, seconds } = entry as Record<string, unknown>
+    if (!isKioskScene(scene) || scenes.some((s) => s.scene === scene)) return
+    const parsed = Number(seconds)
+    const fallback = DEFAULT_SETTINGS.kioskScenes.find((s) => s.scene === scene)?.seconds ?? 15
+    scenes.push({
+      scene,
+      seconds: Number.isFinite(parsed) && parsed > 0 ? Math.max(MIN_SCENE_SECONDS, Math.round(parsed)) : fallback,
+    })
+  })
+  return scenes.length > 0 ? scenes : null
+}
+
+// Merge untrusted values (storage or URL) into a settings object, ignoring invalid ones
+const applyOverrides = (base: DisplaySettings, overrides: Partial<Record<keyof DisplaySettings, unknown>>): DisplaySettings => {
+  const result = { ...base }
+  if (typeof overrides.pageSlug === 'string' && overrides.pageSlug.trim()) {
+    result.pageSlug = overrides.pageSlug.trim()
+  }
+  if (typeof overrides.tournamentId === 'string') {
+    result.tournamentId = overrides.tournamentId.trim()
+  }
+  if (isDisplayMode(overrides.displayMode)) {
+    result.displayMode = overrides.displayMode
+  }
+  const interval = Number(overrides.pollInterval)
+  if (overrides.pollInterval !== undefined && overrides.pollInterval !== null && Number.isFinite(interval)) {
+    result.pollInterval = Math.max(MIN_POLL_INTERVAL, Math.round(interval))
+  }
+  const queueLength = Number(overrides.queueLength)
+  if (overrides.queueLength !== undefined && overrides.queueLength !== null && Number.isFinite(queueLength)) {
+    result.queueLength = Math.min(MAX_QUEUE_LENGTH, Math.max(1, Math.round(queueLength)))
+  }
+  const kiosk = parseBoolean(overrides.kiosk)
+  if (kiosk !== null) {
+    result.kiosk = kiosk
+  }
+  const scenes = parseScenes(overrides.kioskScenes)
+  if (scenes) {
+    result.kioskScenes = scenes
+  }
+  const cues = parseCues(overrides.soundCues)
+  if (cues) {
+    result.soundCues = cues
+  }
+  const tableTimers = parseBoolean(overrides.tableTimers)
+  if (tableTimers !== null) {
+    result.tableTimers = tableTimers
+  }
+  const ticker = parseBoolean(overrides.ticker)
+  if (ticker !== null) {
+    result.ticker = ticker
+  }
+  const sync = parseBoolean(overrides.sync)
+  if (sync !== null) {
+    result.sync = sync
+  }
+  const remote = parseBoolean(overrides.remote)
+  if (remote !== null) {
+    result.remote = remote
+  }
+  return result
+}
+
+// Anything but a plain object (e.g. "null" or a hand-edited value) counts as no stored settings
+const readStoredSettings = (): Partial<Record<keyof DisplaySettings, unknown>> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+const readUrlSettings = (search: string): Partial<Record<keyof DisplaySettings, unknown>> => {
+  const params = new URLSearchParams(search)
+  const result: Partial<Record<keyof DisplaySettings, unknown>> = {}
+  for (const [key, param] of Object.entries(URL_PARAMS) as [keyof DisplaySettings, string][]) {
+    const value = params.get(param)
+    if (value !== null) result[key] = value
+  }
+  return result
+}
+
+// URL parameters win over stored settings so a link always shows what it says
+export const loadSettings = (): DisplaySettings => {
+  const stored = applyOverrides(DEFAULT_SETTINGS, readStoredSettings())
+  return applyOverrides(stored, readUrlSettings(window.location.search))
+}
+
+export const saveSettings = (settings: DisplaySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    console.error('Error saving settings:', err)
+  }
+
+  // Drop our query parameters, otherwise they would override the saved settings on reload
+  const url = new URL(window.location.href)
+  Object.values(URL_PARAMS).forEach((param) => url.searchParams.delete(param))
+  window.history.replaceState(null, '', url)
+}
+
+export const sanitizeSettings = (settings: Partial<Record<keyof DisplaySettings, unknown>>): DisplaySettings =>
+  applyOverrides(DEFAULT_SETTINGS, settings)
@@ -0,0 +1,17 @@
+// Sponsor configuration - customize this for your tournament
+
+export interface SponsorConfig {
+  name: string
+  logo: string  // URL to logo image
+  website?: string
+  tagline?: string
+  enabled: boolean
+}
+
+export const SPONSOR: SponsorConfig = {
+  name: 'VDE Mittelbaden e.V.',
+  logo: '/sponsor.svg',  // Place your logo in the public folder
+  website: 'https://example.com',
+  tagline: 'Langjähriger Sponsor von der Fachschaft EIT',
+  enabled: true  // Set to true to display sponsor
+}
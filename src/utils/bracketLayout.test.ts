@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { layoutBracket, MATCH_HEIGHT, MATCH_WIDTH } from './bracketLayout'
+import { parseTournamentData } from '../api/schema'
+import { readFixture } from '../../mock/readFixture'
+import type { BracketLayout, PlacedMatch } from './bracketLayout'
+import type { Match, Round } from '../api/types'
+
+const load = (id: string) => parseTournamentData(readFixture('tournaments', id))
+
+const winnerOf = (match: Match) => (match.result[0] > match.result[1] ? match.team1.name : match.team2.name)
+const loserOf = (match: Match) => (match.result[0] > match.result[1] ? match.team2.name : match.team1.name)
+
+// The matches a connector joins, found by its first and last point
+const connectedMatches = (layout: BracketLayout, drop = false): [PlacedMatch, PlacedMatch][] =>
+  layout.connectors.filter((connector) => connector.drop === drop).map(({ points }) => {
+    const [startX, startY] = points[0]
+    const [endX, endY] = points[points.length - 1]
+    const from = layout.matches.find(({ x, y }) => x + MATCH_WIDTH === startX && y + MATCH_HEIGHT / 2 === startY)
+    const to = layout.matches.find(({ x, y }) => x === endX && y + MATCH_HEIGHT / 2 === endY)
+    expect(from).toBeDefined()
+    expect(to).toBeDefined()
+    return [from!, to!]
+  })
+
+describe('layoutBracket', () => {
+  it('connects every match to the match its winner plays next', () => {
+    ['6740b2c1e4b0a1f2c3d4e5f6', '6840b2c1e4b0a1f2c3d4e5f6', '6940b2c1e4b0a1f2c3d4e5f6'].forEach((id) => {
+      load(id).eliminations.forEach((elimination) => {
+        const pairs = connectedMatches(layoutBracket(elimination))
+        expect(pairs.length).toBeGreaterThan(0)
+        pairs.forEach(([from, to]) => {
+          expect(to.x).toBeGreaterThan(from.x)
+          expect([to.match.team1.name, to.match.team2.name]).toContain(winnerOf(from.match))
+        })
+      })
+    })
+  })
+
+  it('drops the losers of the winner bracket into the loser bracket and leads both into the final', () => {
+    const [elimination] = load('6940b2c1e4b0a1f2c3d4e5f6').eliminations
+    const layout = layoutBracket(elimination)
+    const drops = connectedMatches(layout, true)
+    const final = elimination.levels[elimination.levels.length - 1].matches[0]
+
+    // Every winner bracket match but the final sends its loser down
+    expect(drops.map(([from]) => from.match._id).sort())
+      .toEqual(elimination.levels.slice(0, -1).flatMap((round) => round.matches.map((match) => match._id)).sort())
+    drops.forEach(([from, to]) => {
+      expect(to.x).toBeGreaterThan(from.x)
+      expect([to.match.team1.name, to.match.team2.name]).toContain(loserOf(from.match))
+    })
+
+    // The final is fed by the winner bracket final and by the last loser round
+    const intoFinal = connectedMatches(layout).filter(([, to]) => to.match === final).map(([from]) => from.match)
+    expect(intoFinal).toEqual([elimination.levels[2].matches[0], elimination.third!.matches[0]])
+  })
+
+  it('draws the same lines before any result is in', () => {
+    const [elimination] = load('6940b2c1e4b0a1f2c3d4e5f6').eliminations
+    const open = (round: Round): Round => ({
+      ...round,
+      matches: round.matches.map((match) => ({ ...match, valid: false, result: [0, 0], team1: { name: '' }, team2: { name: '' } })),
+    })
+    const pending = layoutBracket({
+      ...elimination,
+      levels: elimination.levels.map(open),
+      leftLevels: elimination.leftLevels.map(open),
+      third: open(elimination.third!),
+    })
+    const played = layoutBracket(elimination)
+
+    expect(pending.connectors.map(({ points }) => points)).toEqual(played.connectors.map(({ points }) => points))
+  })
+
+  it('draws the loser bracket of a double elimination in play order, ending with the third place match', () => {
+    const [elimination] = load('6940b2c1e4b0a1f2c3d4e5f6').eliminations
+    const layout = layoutBracket(elimination)
+    const loserTitle = layout.titles.find(({ variant }) => variant === 'loser')!
+    const loserRounds = layout.titles
+      .filter(({ variant, y }) => variant === 'round' && y > loserTitle.y)
+      .sort((a, b) => a.x - b.x)
+      .map(({ text }) => text)
+
+    expect(loserRounds).toEqual(['Runde 1', 'Runde 2', 'Runde 3', 'Platz 3'])
+
+    // The first loser round is played by the losers of the first winner round
+    const firstLosers = elimination.levels[0].matches.map((match) =>
+      winnerOf(match) === match.team1.name ? match.team2.name : match.team1.name)
+    elimination.leftLevels[0].matches.forEach((match) => {
+      expect(firstLosers).toContain(match.team1.name)
+      expect(firstLosers).toContain(match.team2.name)
+    })
+  })
+})
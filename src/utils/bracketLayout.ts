@@ -0,0 +1,214 @@
+// Positions of matches, round titles and connector lines for the SVG bracket
+
+import { getRoundName, getMatchMedals, getThirdPlaceRound } from './tournament'
+import type { BracketSection } from './tournament'
+import type { EliminationGroup, Match, Round } from '../api/types'
+
+export const MATCH_WIDTH = 240
+export const TEAM_HEIGHT = 30
+export const MATCH_HEIGHT = TEAM_HEIGHT * 2
+const MATCH_GAP = 24
+const COLUMN_GAP = 64
+const ROUND_TITLE_HEIGHT = 40
+const SECTION_TITLE_HEIGHT = 36
+const SECTION_GAP = 48
+const PADDING = 16
+
+export interface PlacedMatch {
+  match: Match
+  x: number
+  y: number
+  medals: [string, string]
+}
+
+export interface PlacedTitle {
+  text: string
+  x: number
+  y: number
+  variant: 'round' | 'section' | 'loser'
+}
+
+export interface Connector {
+  points: [number, number][]  // Corners of the line
+  played: boolean             // The feeding match is finished
+  drop: boolean               // Carries the loser down into the loser bracket
+}
+
+export interface BracketLayout {
+  width: number
+  height: number
+  matches: PlacedMatch[]
+  titles: PlacedTitle[]
+  connectors: Connector[]
+}
+
+interface Column {
+  round: Round
+  section: BracketSection
+  column: number  // Horizontal position, counted in columns from the left
+}
+
+const columnX = (column: number) => PADDING + column * (MATCH_WIDTH + COLUMN_GAP)
+
+// Elbow line from the right edge of one match to the left edge of the next
+const connectorPoints = (from: PlacedMatch, to: PlacedMatch): [number, number][] => {
+  const startX = from.x + MATCH_WIDTH
+  const startY = from.y + MATCH_HEIGHT / 2
+  const endY = to.y + MATCH_HEIGHT / 2
+  const midX = startX + COLUMN_GAP / 2
+  return [[startX, startY], [midX, startY], [midX, endY], [to.x, endY]]
+}
+
+// Line between the sections of a double elimination. It turns in the gap right before
+// the target, so it does not cross the matches of the columns in between.
+const crossConnectorPoints = (from: PlacedMatch, to: PlacedMatch): [number, number][] => {
+  const startX = from.x + MATCH_WIDTH
+  const startY = from.y + MATCH_HEIGHT / 2
+  const endY = to.y + MATCH_HEIGHT / 2
+  const midX = to.x - COLUMN_GAP / 2
+  return [[startX, startY], [midX, startY], [midX, endY], [to.x, endY]]
+}
+
+const sideOf = (match: Match, teamId: string | undefined) =>
+  !teamId ? -1 : match.team1._id === teamId ? 0 : match.team2._id === teamId ? 1 : -1
+
+// Connects every match of a round to the match of `targets` its winner or loser moved on to.
+// Once a match is played its team is looked up; before that `fallback` picks the target
+// by the position of the match.
+const connectRounds = (
+  sources: PlacedMatch[],
+  targets: PlacedMatch[],
+  drop: boolean,
+  fallback: (index: number) => number,
+  layout: BracketLayout,
+) => {
+  sources.forEach((source, index) => {
+    const { match } = source
+    const winnerSide = match.result[0] > match.result[1] ? 0 : 1
+    const team = !match.valid ? undefined : (drop ? 1 - winnerSide : winnerSide) === 0 ? match.team1 : match.team2
+    const target = targets.find((placed) => sideOf(placed.match, team?._id) !== -1) ?? targets[fallback(index)]
+    if (target) layout.connectors.push({ points: crossConnectorPoints(source, target), played: match.valid, drop })
+  })
+}
+
+// Lays out the rounds of one bracket section from left to right. A match is centered
+// between its two feeders when a round halves the previous one, and kept on the same
+// line when both rounds have the same number of matches (loser bracket drop-in rounds).
+// Returns the placed matches of each round and the bottom edge of the section.
+const layoutSection = (columns: Column[], elimination: EliminationGroup, top: number, layout: BracketLayout) => {
+  let previous: PlacedMatch[] = []
+  let bottom = top
+  const rounds: PlacedMatch[][] = []
+
+  columns.forEach(({ round, section, column }) => {
+    const x = columnX(column)
+    const matchTop = top + ROUND_TITLE_HEIGHT
+    layout.titles.push({ text: getRoundName(section === 'third' ? 'THIRD' : round.name), x: x + MATCH_WIDTH / 2, y: top + 24, variant: 'round' })
+
+    const count = round.matches.length
+    const halves = previous.length === count * 2
+    const sameSize = previous.length === count
+
+    const placed = round.matches.map((match, index): PlacedMatch => {
+      let y = matchTop + index * (MATCH_HEIGHT + MATCH_GAP)
+      if (halves) {
+        y = (previous[index * 2].y + previous[index * 2 + 1].y) / 2
+      } else if (sameSize) {
+        y = previous[index].y
+      } else if (previous.length > 0) {
+        // Irregular round sizes: spread the matches over the height of the previous round
+        y = matchTop + index * (MATCH_HEIGHT + MATCH_GAP) * (previous.length / count)
+      }
+      return { match, x, y, medals: getMatchMedals(match, round, section, elimination) }
+    })
+
+    placed.forEach((target, index) => {
+      const feeders = halves ? [previous[index * 2], previous[index * 2 + 1]] : sameSize ? [previous[index]] : []
+      feeders.forEach((feeder) => {
+        layout.connectors.push({ points: connectorPoints(feeder, target), played: feeder.match.valid, drop: false })
+      })
+      bottom = Math.max(bottom, target.y + MATCH_HEIGHT)
+    })
+
+    layout.matches.push(...placed)
+    layout.width = Math.max(layout.width, x + MATCH_WIDTH + PADDING)
+    rounds.push(placed)
+    previous = placed
+  })
+
+  return { bottom, rounds }
+}
+
+// Lines between the brackets of a double elimination. The losers of the first winner
+// round play the first loser round; the losers of each later winner round drop into the
+// next loser round that has as many matches as the one before it. Before a result is in,
+// those losers are assumed to cross over (first match to last) to avoid rematches.
+// The winner of the last loser round plays the final.
+const connectBrackets = (winner: PlacedMatch[][], loser: PlacedMatch[][], hasFinal: boolean, layout: BracketLayout) => {
+  const [firstWinner, ...laterWinner] = hasFinal ? winner.slice(0, -1) : winner
+  const [firstLoser] = loser
+  const pairs = firstWinner.length === firstLoser.length * 2
+  connectRounds(firstWinner, firstLoser, true, (index) => (pairs ? Math.floor(index / 2) : index), layout)
+
+  const dropIns = loser.filter((round, index) => index > 0 && round.length === loser[index - 1].length)
+  laterWinner.forEach((round, index) => {
+    const target = dropIns[index]
+    if (target?.length === round.length) connectRounds(round, target, true, (i) => round.length - 1 - i, layout)
+  })
+
+  if (hasFinal) connectRounds(loser[loser.length - 1], winner[winner.length - 1], false, () => 0, layout)
+}
+
+// Full bracket of one elimination: winner bracket, loser bracket (double elimination)
+// and the match for third place. In double elimination the loser bracket starts one
+// column to the right, so the losers of every winner round drop down and to the right
+// into it, and the final comes after the last loser round, where its winner joins it.
+export const layoutBracket = (elimination: EliminationGroup): BracketLayout => {
+  const layout: BracketLayout = { width: 0, height: 0, matches: [], titles: [], connectors: [] }
+  const third = getThirdPlaceRound(elimination)
+  const hasLoserBracket = elimination.double && elimination.leftLevels.length > 0
+  const withMatches = (rounds: Omit<Column, 'column'>[]) => rounds.filter(({ round }) => round.matches.length > 0)
+  let top = PADDING
+
+  const addSection = (title: string | null, variant: PlacedTitle['variant'], columns: Column[]) => {
+    if (columns.length === 0) return []
+    if (title) {
+      layout.titles.push({ text: title, x: PADDING, y: top + 22, variant })
+      top += SECTION_TITLE_HEIGHT
+    }
+    const { bottom, rounds } = layoutSection(columns, elimination, top, layout)
+    top = bottom + SECTION_GAP
+    return rounds
+  }
+
+  // The loser bracket flows left to right as well; in double elimination the third
+  // place round is its last round
+  const loserRounds = hasLoserBracket
+    ? withMatches([
+      ...elimination.leftLevels.map((round) => ({ round, section: 'loser' as const })),
+      ...(third ? [{ round: third, section: 'third' as const }] : []),
+    ])
+    : []
+  const loserColumns = loserRounds.map((round, index): Column => ({ ...round, column: index + 1 }))
+
+  // The final of a double elimination follows the winner bracket final (both a single match)
+  const winnerRounds = withMatches(elimination.levels.map((round) => ({ round, section: 'winner' as const })))
+  const hasFinal = loserColumns.length > 0 && winnerRounds.length >= 2 &&
+    winnerRounds.slice(-2).every(({ round }) => round.matches.length === 1)
+  const winnerColumns = winnerRounds.map((round, index): Column => ({
+    ...round,
+    column: hasFinal && index === winnerRounds.length - 1 ? Math.max(index, loserColumns.length + 1) : index,
+  }))
+
+  const winnerPlaced = addSection(elimination.double ? 'Winner Bracket' : null, 'section', winnerColumns)
+  const loserPlaced = addSection('Loser Bracket', 'loser', loserColumns)
+  if (loserPlaced.length > 0) connectBrackets(winnerPlaced, loserPlaced, hasFinal, layout)
+
+  // Third place match for single elimination, below the final
+  if (!elimination.double && third) {
+    addSection(null, 'round', [{ round: third, section: 'third', column: Math.max(winnerColumns.length - 1, 0) }])
+  }
+
+  layout.height = Math.max(top - SECTION_GAP + PADDING, PADDING * 2)
+  return layout
+}
@@ -0,0 +1,128 @@
+import { jsPDF } from 'jspdf'
+import { loadLogo } from './pdfExport'
+import type { PdfImage } from './pdfExport'
+import type { RankingPlace } from './ranking'
+import { ORGANIZER } from '../organizer'
+import { SPONSOR } from '../sponsor'
+
+// Certificates (Urkunden) for the placed teams of an elimination, one A4 page per team
+
+export interface CertificateTeam {
+  place: number
+  name: string
+}
+
+export interface CertificateOptions {
+  tournamentName: string
+  date: string              // Already formatted, empty to leave it out
+  category: string | null   // Elimination name when a tournament has several
+  teams: CertificateTeam[]
+}
+
+interface CertificateLogos {
+  organizer: PdfImage | null
+  sponsor: PdfImage | null
+}
+
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const CENTER = PAGE_WIDTH / 2
+const LOGO_HEIGHT = 22
+const TEXT_WIDTH = 150
+
+const GREEN = '#2d5016'
+const ACCENT = '#4a7c23'
+const TEXT = '#333333'
+const MUTED = '#777777'
+
+// Color of the place line, gold, silver and bronze for the podium
+const PLACE_COLORS = ['#b8860b', '#707070', '#a0522d']
+
+// Teams of the elimination whose final place is within [from, to]; teams sharing a place all get one
+export const getCertificateTeams = (places: RankingPlace[], from: number, to: number): CertificateTeam[] =>
+  places
+    .filter(({ place }) => place >= from && place <= to)
+    .flatMap(({ place, teams }) => teams.map((team) => ({ place, name: team.name })))
+
+const centered = (pdf: jsPDF, text: string | string[], y: number, size: number, style: 'normal' | 'bold', color: string) => {
+  pdf.setFont('helvetica', style)
+  pdf.setFontSize(size)
+  pdf.setTextColor(color)
+  pdf.text(text, CENTER, y, { align: 'center' })
+}
+
+const drawCertificate = (pdf: jsPDF, team: CertificateTeam, options: CertificateOptions, logos: CertificateLogos) => {
+  // Double frame
+  pdf.setDrawColor(ACCENT)
+  pdf.setLineWidth(1.2)
+  pdf.rect(10, 10, PAGE_WIDTH - 20, PAGE_HEIGHT - 20)
+  pdf.setLineWidth(0.3)
+  pdf.rect(13, 13, PAGE_WIDTH - 26, PAGE_HEIGHT - 26)
+
+  // Organizer logo left, sponsor logo right
+  if (logos.organizer) {
+    pdf.addImage(logos.organizer.data, 'PNG', 24, 22, LOGO_HEIGHT * logos.organizer.ratio, LOGO_HEIGHT)
+  }
+  if (logos.sponsor) {
+    const width = Math.min(LOGO_HEIGHT * logos.sponsor.ratio, 80)
+    const height = width / logos.sponsor.ratio
+    pdf.addImage(logos.sponsor.data, 'PNG', PAGE_WIDTH - 24 - width, 22 + (LOGO_HEIGHT - height) / 2, width, height)
+  }
+
+  centered(pdf, 'URKUNDE', 80, 44, 'bold', GREEN)
+  pdf.setDrawColor(ACCENT)
+  pdf.setLineWidth(0.6)
+  pdf.line(CENTER - 40, 88, CENTER + 40, 88)
+
+  centered(pdf, 'beim', 104, 14, 'normal', MUTED)
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(20)
+  const tournamentLines: string[] = pdf.splitTextToSize(options.tournamentName, TEXT_WIDTH)
+  centered(pdf, tournamentLines, 115, 20, 'bold', TEXT)
+  let y = 115 + (tournamentLines.length - 1) * 9
+  if (options.category) {
+    centered(pdf, options.category, y + 9, 14, 'normal', TEXT)
+    y += 9
+  }
+  if (options.date) {
+    centered(pdf, `am ${options.date}`, y + 10, 14, 'normal', MUTED)
+  }
+
+  centered(pdf, 'erreichte das Team', 160, 14, 'normal', MUTED)
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(28)
+  const nameLines: string[] = pdf.splitTextToSize(team.name, TEXT_WIDTH)
+  centered(pdf, nameLines, 175, 28, 'bold', GREEN)
+
+  const placeY = 175 + (nameLines.length - 1) * 12 + 25
+  centered(pdf, `den ${team.place}. Platz`, placeY, 34, 'bold', PLACE_COLORS[team.place - 1] ?? ACCENT)
+
+  // Signature line
+  pdf.setDrawColor(TEXT)
+  pdf.setLineWidth(0.3)
+  pdf.line(CENTER - 45, 252, CENTER + 45, 252)
+  centered(pdf, `${ORGANIZER.signature}, ${ORGANIZER.name}`, 258, 11, 'normal', MUTED)
+
+  if (SPONSOR.enabled) {
+    centered(pdf, `Mit freundlicher Unterstützung von ${SPONSOR.name}`, 274, 9, 'normal', MUTED)
+  }
+}
+
+export const createCertificatesPdf = (options: CertificateOptions, logos: CertificateLogos): jsPDF => {
+  const pdf = new jsPDF('p', 'mm', 'a4')
+  options.teams.forEach((team, index) => {
+    if (index > 0) pdf.addPage('a4', 'portrait')
+    drawCertificate(pdf, team, options, logos)
+  })
+  return pdf
+}
+
+export const exportCertificates = async (options: CertificateOptions) => {
+  if (options.teams.length === 0) return
+  const [organizer, sponsor] = await Promise.all([
+    loadLogo(ORGANIZER.logo),
+    SPONSOR.enabled ? loadLogo(SPONSOR.logo) : null,
+  ])
+  const pdf = createCertificatesPdf(options, { organizer, sponsor })
+  pdf.save(`Urkunden_${options.tournamentName || 'Turnier'}.pdf`)
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { createCsv } from './dataExport'
+import type { TournamentExport } from './dataExport'
+
+const exportWith = (placements: TournamentExport['placements']): TournamentExport => ({
+  tournament: 'Test',
+  exportedAt: '2025-01-01T00:00:00.000Z',
+  standings: [],
+  matches: [],
+  placements,
+})
+
+const csvLines = (data: TournamentExport) => createCsv(data, 'placements').split('\r\n').slice(1, -1)
+
+describe('createCsv', () => {
+  it.each(['=1+1', '+49 Kicker', '-Team-', '@SUMME(A1)'])('prefixes the formula text %j with a quote', (name) => {
+    expect(csvLines(exportWith([{ elimination: null, place: 1, team: name }]))).toEqual([`Vorrunde;1;'${name}`])
+  })
+
+  it('prefixes text starting with a tab', () => {
+    expect(csvLines(exportWith([{ elimination: null, place: 1, team: '\t=1+1' }]))).toEqual([`Vorrunde;1;'\t=1+1`])
+  })
+
+  it('prefixes text starting with a carriage return and quotes it', () => {
+    const csv = createCsv(exportWith([{ elimination: null, place: 1, team: '\rTeam' }]), 'placements')
+    expect(csv).toContain(`Vorrunde;1;"'\rTeam"\r\n`)
+  })
+
+  it('quotes a prefixed value that also needs quoting', () => {
+    expect(csvLines(exportWith([{ elimination: null, place: 1, team: '=A1;"B"' }]))).toEqual([`Vorrunde;1;"'=A1;""B"""`])
+  })
+
+  it('leaves plain text and negative numbers alone', () => {
+    const data: TournamentExport = {
+      ...exportWith([]),
+      standings: [{
+        group: 'Gruppe A', team: 'Team 1-2', place: 1, matches: 2, won: 0, draws: 0, lost: 2,
+        goals: 3, goals_in: 6, goal_diff: -3, points: 0,
+      }],
+    }
+    expect(createCsv(data, 'standings').split('\r\n')[1]).toBe('Gruppe A;1;Team 1-2;2;0;0;2;3;6;-3;0')
+  })
+})
@@ -0,0 +1,147 @@
+import { getAllMatches, getGroupName, getQualifyingGroups } from './tournament'
+import { getFinalRanking } from './ranking'
+import type { TeamStats, TournamentData } from '../api/types'
+
+// Raw data export for archives and websites. CSV uses semicolons and a BOM so a
+// double click opens it correctly in a German Excel.
+
+export type DataExportKind = 'standings' | 'matches' | 'placements'
+
+export interface StandingRow extends TeamStats {
+  group: string
+  team: string
+}
+
+export interface MatchRow {
+  round: string
+  team1: string
+  team2: string
+  goals1: number | null  // Null while the match is not played
+  goals2: number | null
+  table: string
+  status: 'played' | 'running' | 'open'
+  timeEnd: string | null  // ISO time the result was entered
+}
+
+export interface PlacementRow {
+  elimination: string | null  // Null for the teams that did not reach a KO phase
+  place: number
+  team: string
+}
+
+export interface TournamentExport {
+  tournament: string
+  exportedAt: string
+  standings: StandingRow[]
+  matches: MatchRow[]
+  placements: PlacementRow[]
+}
+
+const STATUS_LABELS: Record<MatchRow['status'], string> = {
+  played: 'gespielt',
+  running: 'läuft',
+  open: 'offen',
+}
+
+const FILE_LABELS: Record<DataExportKind, string> = {
+  standings: 'Tabellen',
+  matches: 'Spiele',
+  placements: 'Platzierungen',
+}
+
+// Qualifying tables with all team stats
+const getStandingRows = (tournamentData: TournamentData): StandingRow[] => {
+  const groups = getQualifyingGroups(tournamentData)
+  return groups.flatMap((group, index) => group.standings.map((team) => ({
+    group: getGroupName(group, index, groups.length),
+    team: team.name,
+    ...team.stats,
+  })))
+}
+
+const getMatchRows = (tournamentData: TournamentData): MatchRow[] =>
+  getAllMatches(tournamentData).map(({ match, roundName }) => ({
+    round: roundName,
+    team1: match.team1?.name ?? '',
+    team2: match.team2?.name ?? '',
+    goals1: match.valid ? match.result[0] : null,
+    goals2: match.valid ? match.result[1] : null,
+    table: match.tables.map((table) => table.name).join(', '),
+    status: match.valid ? 'played' : match.tables.length > 0 ? 'running' : 'open',
+    timeEnd: match.valid && match.timeEnd ? new Date(match.timeEnd).toISOString() : null,
+  }))
+
+// Final places as in the results view: the KO places, then the teams that did not qualify
+const getPlacementRows = (tournamentData: TournamentData): PlacementRow[] =>
+  getFinalRanking(tournamentData).flatMap(({ elimination, places }) =>
+    places.flatMap(({ place, teams }) => teams.map((team) => ({
+      elimination: elimination ? elimination.name || tournamentData.name : null,
+      place,
+      team: team.name,
+    }))))
+
+export const createTournamentExport = (tournamentData: TournamentData): TournamentExport => ({
+  tournament: tournamentData.name,
+  exportedAt: new Date().toISOString(),
+  standings: getStandingRows(tournamentData),
+  matches: getMatchRows(tournamentData),
+  placements: getPlacementRows(tournamentData),
+})
+
+// Text starting like a formula gets a leading ' so Excel shows it instead of evaluating it.
+// Numbers stay as they are, a goal difference of -3 is no formula.
+const csvValue = (value: string | number | null): string => {
+  if (value === null) return ''
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (header: string[], rows: (string | number | null)[][]): string =>
+  [header, ...rows].map((row) => row.map(csvValue).join(';')).join('\r\n') + '\r\n'
+
+export const createCsv = (data: TournamentExport, kind: DataExportKind): string => {
+  switch (kind) {
+    case 'standings':
+      return toCsv(
+        ['Gruppe', 'Platz', 'Team', 'Spiele', 'Siege', 'Unentschieden', 'Niederlagen', 'Tore', 'Gegentore', 'Tordifferenz', 'Punkte'],
+        data.standings.map((row) => [
+          row.group, row.place, row.team, row.matches, row.won, row.draws, row.lost,
+          row.goals, row.goals_in, row.goal_diff, row.points,
+        ]),
+      )
+    case 'matches':
+      return toCsv(
+        ['Runde', 'Team 1', 'Team 2', 'Tore 1', 'Tore 2', 'Tisch', 'Status', 'Ende'],
+        data.matches.map((row) => [
+          row.round, row.team1, row.team2, row.goals1, row.goals2, row.table, STATUS_LABELS[row.status], row.timeEnd,
+        ]),
+      )
+    case 'placements':
+      return toCsv(
+        ['Wertung', 'Platz', 'Team'],
+        data.placements.map((row) => [row.elimination ?? 'Vorrunde', row.place, row.team]),
+      )
+  }
+}
+
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+export const getFileBase = (tournamentData: TournamentData) =>
+  `${tournamentData.name || 'Turnier'}_${new Date().toISOString().split('T')[0]}`
+
+export const exportCsv = (tournamentData: TournamentData, kind: DataExportKind) => {
+  const csv = createCsv(createTournamentExport(tournamentData), kind)
+  downloadFile(`\uFEFF${csv}`, `${getFileBase(tournamentData)}_${FILE_LABELS[kind]}.csv`, 'text/csv;charset=utf-8')
+}
+
+export const exportJson = (tournamentData: TournamentData) => {
+  const json = JSON.stringify(createTournamentExport(tournamentData), null, 2)
+  downloadFile(json, `${getFileBase(tournamentData)}.json`, 'application/json')
+}
@@ -0,0 +1,40 @@
+// Display formatting helpers
+
+export const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
+
+export const formatCurrentTime = (date: Date) => {
+  return date.toLocaleTimeString('de-DE', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+}
+
+// Time of day without seconds, e.g. for "seit 14:32"
+export const formatClockTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('de-DE', {
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds} s`
+  return `${Math.floor(seconds / 60)} min`
+}
+
+// Long date, e.g. "16. Mai 2025" - empty for a missing or broken date
+export const formatDate = (value: string) => {
+  const date = new Date(value)
+  if (!value || Number.isNaN(date.getTime())) return ''
+  return date.toLocaleDateString('de-DE', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  })
+}
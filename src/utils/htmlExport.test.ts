@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { createResultsHtml, escapeHtml } from './htmlExport'
+import { parseTournamentData } from '../api/schema'
+import { readFixture } from '../../mock/readFixture'
+
+const TOURNAMENT_ID = '6740b2c1e4b0a1f2c3d4e5f6'
+const TEAM_ID = '6740a1000000000000000001'  // Tischkicker Titanen, group winner and KO champion
+const NAME = '<b>"Bits & Bytes"</b>'
+
+// The tournament with one team renamed everywhere it shows up
+const tournamentWithName = (name: string) =>
+  parseTournamentData(JSON.parse(JSON.stringify(readFixture('tournaments', TOURNAMENT_ID)), (_key, value) =>
+    value?._id === TEAM_ID && typeof value.name === 'string' ? { ...value, name } : value))
+
+describe('escapeHtml', () => {
+  it('escapes the characters that would break the markup', () => {
+    expect(escapeHtml('<a href="x">Tom & Jerry</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&lt;/a&gt;')
+  })
+})
+
+describe('createResultsHtml', () => {
+  const html = createResultsHtml(tournamentWithName(NAME), null)
+
+  it('escapes team names in every section', () => {
+    expect(html).not.toContain(NAME)
+    expect(html).not.toContain('<b>')
+    // Podium, final ranking, group table and the bracket (name and tooltip of every match)
+    expect(html.split(escapeHtml(NAME)).length - 1).toBeGreaterThanOrEqual(3)
+    expect(html).toMatch(/<title>&lt;b&gt;&quot;Bits &amp; Bytes&quot;&lt;\/b&gt;<\/title>/)
+  })
+
+  it('has the bracket, the final ranking and the standings', () => {
+    expect(html).toContain('<h2>KO-Runde</h2>')
+    expect(html).toContain('class="bracket-svg"')
+    expect(html).toContain('class="svg-connector')
+    expect(html).toContain('<h2>Endplatzierungen</h2>')
+    expect(html).toContain('<h2>Vorrunde</h2>')
+    expect(html.indexOf('<h2>KO-Runde</h2>')).toBeLessThan(html.indexOf('<h2>Endplatzierungen</h2>'))
+  })
+})
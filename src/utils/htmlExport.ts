@@ -0,0 +1,181 @@
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import BracketDiagram from '../components/BracketDiagram'
+import bracketStyles from '../components/BracketDiagram.css?inline'
+import { layoutBracket } from './bracketLayout'
+import { getEliminations, getGroupName, getQualifyingGroups } from './tournament'
+import { getEliminationRanking, getFinalRanking } from './ranking'
+import { loadLogo } from './pdfExport'
+import { downloadFile, getFileBase } from './dataExport'
+import type { PdfImage } from './pdfExport'
+import type { RankingPlace } from './ranking'
+import type { BracketLayout } from './bracketLayout'
+import type { Standing, TournamentData } from '../api/types'
+import { SPONSOR } from '../sponsor'
+
+// Static results page: one HTML file with the styles and the sponsor logo embedded, so it
+// can be uploaded or mailed and opened without the app or the Kickertool API.
+
+const PODIUM = [
+  { index: 1, className: 'second' },
+  { index: 0, className: 'first' },
+  { index: 2, className: 'third' },
+]
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #333; background: #f4f6f0; }
+header { display: flex; align-items: center; justify-content: space-between; gap: 1rem; padding: 1.25rem 2rem; background: #2d5016; color: #fff; }
+header h1 { margin: 0; font-size: 1.6rem; }
+header p { margin: 0.25rem 0 0; opacity: 0.8; font-size: 0.9rem; }
+header img { height: 48px; background: #fff; border-radius: 6px; padding: 4px; }
+main { max-width: 1100px; margin: 0 auto; padding: 1.5rem 1rem 3rem; }
+section { background: #fff; border-radius: 12px; padding: 1.25rem 1.5rem; margin-bottom: 1.5rem; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.08); }
+h2 { margin: 0 0 1rem; color: #2d5016; font-size: 1.3rem; }
+h3 { margin: 1.25rem 0 0.5rem; color: #4a7c23; font-size: 1.05rem; }
+.podium { display: flex; justify-content: center; align-items: flex-end; gap: 0.75rem; margin: 1rem 0 1.5rem; }
+.podium-place { display: flex; flex-direction: column; align-items: center; width: 200px; text-align: center; }
+.podium-name { font-weight: 700; margin-bottom: 0.4rem; }
+.podium-block { width: 100%; border-radius: 8px 8px 0 0; color: #fff; font-size: 1.8rem; font-weight: 800; display: flex; align-items: center; justify-content: center; }
+.first .podium-block { height: 110px; background: #d4a017; }
+.second .podium-block { height: 80px; background: #9e9e9e; }
+.third .podium-block { height: 60px; background: #b87333; }
+/* The bracket keeps the dark background of the app, its styles are the ones of the bracket view */
+.bracket { overflow-x: auto; background: #0a0f05; border-radius: 8px; padding: 0.5rem; font-family: 'Inter', system-ui, sans-serif; }
+.bracket svg { display: block; max-width: 100%; height: auto; }
+table { width: 100%; border-collapse: collapse; font-size: 0.95rem; }
+th, td { padding: 0.45rem 0.6rem; text-align: left; border-bottom: 1px solid #dee2e6; }
+th { color: #4a7c23; font-size: 0.8rem; text-transform: uppercase; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+tr.medal-gold td { background: #fff9e6; }
+tr.medal-silver td { background: #f1f3f5; }
+tr.medal-bronze td { background: #fff3e6; }
+footer { text-align: center; color: #888; font-size: 0.85rem; padding: 0 1rem 2rem; }
+${bracketStyles}`
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const medalClass = (place: number) => ['medal-gold', 'medal-silver', 'medal-bronze'][place - 1] ?? ''
+
+const teamNames = (teams: Standing[]) => teams.map((team) => escapeHtml(team.name)).join('<br>')
+
+const renderPodium = (places: RankingPlace[]) => `
+  <div class="podium">
+    ${PODIUM.filter(({ index }) => places[index]).map(({ index, className }) => `
+    <div class="podium-place ${className}">
+      <div class="podium-name">${teamNames(places[index].teams)}</div>
+      <div class="podium-block">${places[index].place}</div>
+    </div>`).join('')}
+  </div>`
+
+// The same tree as the bracket view, rendered by its component to plain SVG markup
+const renderBracket = (layout: BracketLayout) => `
+  <div class="bracket">
+    ${renderToStaticMarkup(createElement(
+      'svg',
+      { xmlns: 'http://www.w3.org/2000/svg', viewBox: `0 0 ${layout.width} ${layout.height}`, width: layout.width, height: layout.height },
+      createElement(BracketDiagram, { layout }),
+    ))}
+  </div>`
+
+const renderRanking = (tournamentData: TournamentData) => {
+  const rows = getFinalRanking(tournamentData).flatMap(({ elimination, places }) =>
+    places.flatMap(({ place, teams }) => teams.map((team) => `
+      <tr class="${medalClass(place)}">
+        <td class="num">${place}.</td>
+        <td>${escapeHtml(team.name)}</td>
+        <td>${escapeHtml(elimination ? elimination.name || tournamentData.name : 'Vorrunde')}</td>
+      </tr>`)))
+  if (rows.length === 0) return ''
+
+  return `
+  <section>
+    <h2>Endplatzierungen</h2>
+    <table>
+      <thead><tr><th class="num">Platz</th><th>Team</th><th>Wertung</th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>
+  </section>`
+}
+
+const renderStandings = (tournamentData: TournamentData) => {
+  const groups = getQualifyingGroups(tournamentData)
+  const tables = groups
+    .filter((group) => group.standings.length > 0)
+    .map((group) => `
+    <h3>${escapeHtml(getGroupName(group, groups.indexOf(group), groups.length))}</h3>
+    <table>
+      <thead>
+        <tr>
+          <th class="num">#</th><th>Team</th><th class="num">S</th><th class="num">G</th><th class="num">U</th>
+          <th class="num">V</th><th class="num">Tore</th><th class="num">Diff</th><th class="num">Pkt</th>
+        </tr>
+      </thead>
+      <tbody>${group.standings.map(({ name, stats }) => `
+        <tr>
+          <td class="num">${stats.place}</td>
+          <td>${escapeHtml(name)}</td>
+          <td class="num">${stats.matches}</td>
+          <td class="num">${stats.won}</td>
+          <td class="num">${stats.draws}</td>
+          <td class="num">${stats.lost}</td>
+          <td class="num">${stats.goals}:${stats.goals_in}</td>
+          <td class="num">${stats.goal_diff > 0 ? '+' : ''}${stats.goal_diff}</td>
+          <td class="num">${stats.points}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>`)
+  if (tables.length === 0) return ''
+
+  return `
+  <section>
+    <h2>Vorrunde</h2>
+    ${tables.join('')}
+  </section>`
+}
+
+export const createResultsHtml = (tournamentData: TournamentData, logo: PdfImage | null): string => {
+  const name = escapeHtml(tournamentData.name || 'Turnier')
+  const date = new Date().toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' })
+  const ranking = getFinalRanking(tournamentData)
+
+  const eliminations = getEliminations(tournamentData).map((elimination) => `
+  <section>
+    <h2>${escapeHtml(elimination.name || tournamentData.name)}</h2>
+    ${renderPodium(getEliminationRanking(ranking, elimination))}
+    ${renderBracket(layoutBracket(elimination))}
+  </section>`)
+
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${name} - Ergebnisse</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${name}</h1>
+    <p>Ergebnisse, Stand: ${date}</p>
+  </div>
+  ${logo ? `<img src="${logo.data}" alt="${escapeHtml(SPONSOR.name)}">` : ''}
+</header>
+<main>
+  ${eliminations.join('')}
+  ${renderRanking(tournamentData)}
+  ${renderStandings(tournamentData)}
+</main>
+<footer>${SPONSOR.enabled ? `Mit freundlicher Unterstützung von ${escapeHtml(SPONSOR.name)}` : ''}</footer>
+</body>
+</html>
+`
+}
+
+export const exportResultsHtml = async (tournamentData: TournamentData) => {
+  const logo = SPONSOR.enabled ? await loadLogo(SPONSOR.logo) : null
+  const html = createResultsHtml(tournamentData, logo)
+  downloadFile(html, `${getFileBase(tournamentData)}.html`, 'text/html;charset=utf-8')
+}
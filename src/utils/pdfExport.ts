@@ -0,0 +1,429 @@
+import { jsPDF } from 'jspdf'
+import { layoutBracket, MATCH_WIDTH, MATCH_HEIGHT, TEAM_HEIGHT } from './bracketLayout'
+import { getGroupName, getQualifyingGroups } from './tournament'
+import { getFinalRanking } from './ranking'
+import type { BracketLayout, PlacedMatch } from './bracketLayout'
+import type { EliminationGroup, Standing, TournamentData } from '../api/types'
+import { SPONSOR } from '../sponsor'
+
+// The PDF is drawn as text and vector graphics with jsPDF, so it stays sharp and
+// searchable. All sizes are in mm unless noted otherwise.
+
+type Orientation = 'portrait' | 'landscape'
+
+const MARGIN = 12
+const HEADER_HEIGHT = 18   // Title line with the sponsor logo
+const FOOTER_HEIGHT = 10   // Date and page number
+const LOGO_HEIGHT = 9
+const LOGO_PIXEL_HEIGHT = 120  // Resolution of the logo in the PDF
+const PT_PER_MM = 72 / 25.4
+
+// Bracket units (px of the screen layout) to mm, shrunk to fit but kept readable
+const MIN_BRACKET_SCALE = 0.2
+const MAX_BRACKET_SCALE = 0.32
+
+const COLORS = {
+  title: '#2d5016',
+  accent: '#4a7c23',
+  text: '#333333',
+  muted: '#888888',
+  border: '#dee2e6',
+  row: '#f8f9fa',
+  winner: '#e8f5e9',
+}
+
+// Background and text color of the placed teams
+const MEDAL_COLORS: Record<string, { fill: string; text: string }> = {
+  'medal-gold': { fill: '#fff9e6', text: '#b8860b' },
+  'medal-silver': { fill: '#f1f3f5', text: '#666666' },
+  'medal-bronze': { fill: '#fff3e6', text: '#a0522d' },
+}
+const PLACE_MEDALS = ['medal-gold', 'medal-silver', 'medal-bronze']
+
+export interface PdfImage {
+  data: string   // PNG data URL
+  ratio: number  // Width / height
+}
+
+interface PdfWriter {
+  pdf: jsPDF
+  y: number             // Top of the free space on the current page
+  orientation: Orientation
+  title: string         // Header title of the current section
+  pageTitles: string[]  // Header title of every page, by page number - 1
+}
+
+interface Area {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Space between header and footer of the current page
+const getContentArea = (pdf: jsPDF): Area => {
+  const width = pdf.internal.pageSize.getWidth()
+  const height = pdf.internal.pageSize.getHeight()
+  return {
+    x: MARGIN,
+    y: MARGIN + HEADER_HEIGHT,
+    width: width - MARGIN * 2,
+    height: height - MARGIN * 2 - HEADER_HEIGHT - FOOTER_HEIGHT,
+  }
+}
+
+const newPage = (writer: PdfWriter, orientation = writer.orientation, title = writer.title) => {
+  writer.pdf.addPage('a4', orientation)
+  writer.orientation = orientation
+  writer.title = title
+  writer.pageTitles.push(title)
+  writer.y = getContentArea(writer.pdf).y
+}
+
+// Start a new page when `height` does not fit anymore. Returns whether it did.
+const ensureSpace = (writer: PdfWriter, height: number): boolean => {
+  const area = getContentArea(writer.pdf)
+  if (writer.y + height <= area.y + area.height) return false
+  newPage(writer)
+  return true
+}
+
+const setFont = (pdf: jsPDF, size: number, style: 'normal' | 'bold' = 'normal', color = COLORS.text) => {
+  pdf.setFont('helvetica', style)
+  pdf.setFontSize(size)
+  pdf.setTextColor(color)
+}
+
+// Shorten a text with an ellipsis until it fits into `maxWidth`
+const fitText = (pdf: jsPDF, text: string, maxWidth: number): string => {
+  if (pdf.getTextWidth(text) <= maxWidth) return text
+  let shortened = text
+  while (shortened.length > 1 && pdf.getTextWidth(`${shortened}…`) > maxWidth) {
+    shortened = shortened.slice(0, -1)
+  }
+  return `${shortened.trimEnd()}…`
+}
+
+const sectionHeading = (writer: PdfWriter, text: string) => {
+  ensureSpace(writer, 14)
+  const { pdf } = writer
+  setFont(pdf, 13, 'bold', COLORS.title)
+  pdf.text(text, MARGIN, writer.y + 5)
+  writer.y += 10
+}
+
+// One line of a place list: place badge and the names of all teams on that place
+const placeRow = (writer: PdfWriter, place: number, teams: Standing[]) => {
+  const { pdf } = writer
+  const area = getContentArea(pdf)
+  const nameX = area.x + 16
+  setFont(pdf, 11, place <= 3 ? 'bold' : 'normal')
+  const lines: string[] = pdf.splitTextToSize(teams.map((t) => t.name).join(', '), area.width - 18)
+  const height = Math.max(8, lines.length * 5 + 3)
+  ensureSpace(writer, height + 1)
+
+  const medal = MEDAL_COLORS[PLACE_MEDALS[place - 1]]
+  pdf.setFillColor(medal?.fill ?? COLORS.row)
+  pdf.roundedRect(area.x, writer.y, area.width, height, 1.5, 1.5, 'F')
+  if (medal) {
+    pdf.setFillColor(medal.text)
+    pdf.rect(area.x, writer.y, 1.2, height, 'F')
+  }
+
+  setFont(pdf, 11, 'bold', medal?.text ?? COLORS.accent)
+  pdf.text(`${place}.`, area.x + 4, writer.y + 5.5)
+  setFont(pdf, 11, place <= 3 ? 'bold' : 'normal')
+  pdf.text(lines, nameX, writer.y + 5.5)
+  writer.y += height + 1.5
+}
+
+// Final places of every elimination and the teams that did not reach the KO phase
+const drawResults = (writer: PdfWriter, tournamentData: TournamentData, eliminations: EliminationGroup[]) => {
+  const shown = new Set(eliminations.map((e) => e._id))
+  const sections = getFinalRanking(tournamentData)
+    .filter(({ elimination }) => elimination === null || shown.has(elimination._id))
+  if (!sections.some(({ elimination }) => elimination !== null)) return
+  newPage(writer, 'portrait', 'Ergebnisse')
+
+  sections.forEach(({ elimination, places }) => {
+    sectionHeading(writer, elimination ? elimination.name || tournamentData.name : 'Vorrunde (nicht für KO qualifiziert)')
+    places.forEach(({ place, teams }) => placeRow(writer, place, teams))
+    writer.y += 4
+  })
+}
+
+const STANDINGS_COLUMNS: { label: string; width: number; value: (team: Standing) => string }[] = [
+  { label: '#', width: 10, value: (team) => String(team.stats.place) },
+  { label: 'Team', width: 0, value: (team) => team.name },  // Takes the remaining width
+  { label: 'S', width: 12, value: (team) => String(team.stats.matches) },
+  { label: 'G', width: 12, value: (team) => String(team.stats.won) },
+  { label: 'U', width: 12, value: (team) => String(team.stats.draws) },
+  { label: 'V', width: 12, value: (team) => String(team.stats.lost) },
+  { label: 'Tore', width: 20, value: (team) => `${team.stats.goals}:${team.stats.goals_in}` },
+  { label: 'Diff', width: 14, value: (team) => `${team.stats.goal_diff > 0 ? '+' : ''}${team.stats.goal_diff}` },
+  { label: 'Pkt', width: 14, value: (team) => String(team.stats.points) },
+]
+const ROW_HEIGHT = 7
+
+// Group tables, continued on the next page with a repeated header row
+const drawStandings = (writer: PdfWriter, tournamentData: TournamentData) => {
+  const groups = getQualifyingGroups(tournamentData).filter((g) => g.standings.length > 0)
+  if (groups.length === 0) return
+  newPage(writer, 'portrait', 'Vorrunde')
+  const { pdf } = writer
+
+  groups.forEach((group, index) => {
+    const title = groups.length > 1 ? getGroupName(group, index, groups.length) : null
+    const area = getContentArea(pdf)
+    const fixedWidth = STANDINGS_COLUMNS.reduce((sum, column) => sum + column.width, 0)
+    const widths = STANDINGS_COLUMNS.map((column) => column.width || area.width - fixedWidth)
+
+    const drawRow = (cells: string[], fill: string | null, style: 'normal' | 'bold', color: string) => {
+      if (fill) {
+        pdf.setFillColor(fill)
+        pdf.rect(area.x, writer.y, area.width, ROW_HEIGHT, 'F')
+      }
+      setFont(pdf, 10, style, color)
+      let x = area.x
+      cells.forEach((cell, column) => {
+        const isTeam = column === 1
+        const text = fitText(pdf, cell, widths[column] - 3)
+        if (isTeam) pdf.text(text, x + 2, writer.y + ROW_HEIGHT / 2, { baseline: 'middle' })
+        else pdf.text(text, x + widths[column] / 2, writer.y + ROW_HEIGHT / 2, { baseline: 'middle', align: 'center' })
+        x += widths[column]
+      })
+      writer.y += ROW_HEIGHT
+    }
+    const drawHeader = (continued: boolean) => {
+      if (title) {
+        setFont(pdf, 12, 'bold', COLORS.title)
+        pdf.text(continued ? `${title} (Fortsetzung)` : title, area.x, writer.y + 5)
+        writer.y += 8
+      }
+      drawRow(STANDINGS_COLUMNS.map((column) => column.label), COLORS.accent, 'bold', '#ffffff')
+    }
+
+    // Keep the header together with at least a few rows
+    ensureSpace(writer, (title ? 8 : 0) + ROW_HEIGHT * 4)
+    drawHeader(false)
+    group.standings.forEach((team, row) => {
+      if (ensureSpace(writer, ROW_HEIGHT)) drawHeader(true)
+      const medal = MEDAL_COLORS[PLACE_MEDALS[team.stats.place - 1]]
+      const fill = medal?.fill ?? (row % 2 === 1 ? COLORS.row : null)
+      drawRow(STANDINGS_COLUMNS.map((column) => column.value(team)), fill, medal ? 'bold' : 'normal', COLORS.text)
+    })
+    pdf.setDrawColor(COLORS.border)
+    pdf.setLineWidth(0.2)
+    pdf.line(area.x, writer.y, area.x + area.width, writer.y)
+    writer.y += 8
+  })
+}
+
+// Cut [0, total] into pieces of at most `size`, moving each cut in front of a box it
+// would go through - a match is never split across two pages
+const splitRange = (boxes: [number, number][], total: number, size: number): [number, number][] => {
+  const ranges: [number, number][] = []
+  let start = 0
+  while (start < total) {
+    let end = Math.min(total, start + size)
+    let moved = true
+    while (moved && end < total) {
+      moved = false
+      boxes.forEach(([from, to]) => {
+        if (from > start && from < end && to > end) {
+          end = from
+          moved = true
+        }
+      })
+    }
+    ranges.push([start, end])
+    start = end
+  }
+  return ranges
+}
+
+const drawBracketMatch = (pdf: jsPDF, { match, x, y, medals }: PlacedMatch, toX: (x: number) => number, toY: (y: number) => number, scale: number) => {
+  const left = toX(x)
+  const top = toY(y)
+  const width = MATCH_WIDTH * scale
+  const teamHeight = TEAM_HEIGHT * scale
+  const teams = [match.team1, match.team2]
+  const isWinner = (side: number) => match.valid && match.result[side] > match.result[1 - side]
+
+  pdf.setFillColor('#ffffff')
+  pdf.rect(left, top, width, MATCH_HEIGHT * scale, 'F')
+  teams.forEach((team, side) => {
+    const medal = MEDAL_COLORS[medals[side]]
+    const fill = medal?.fill ?? (isWinner(side) ? COLORS.winner : null)
+    if (fill) {
+      pdf.setFillColor(fill)
+      pdf.rect(left, top + side * teamHeight, width, teamHeight, 'F')
+    }
+
+    const textY = top + side * teamHeight + teamHeight / 2
+    const color = medal?.text ?? (isWinner(side) ? COLORS.title : team.name ? COLORS.text : COLORS.muted)
+    setFont(pdf, 14 * scale * PT_PER_MM, isWinner(side) || medal ? 'bold' : 'normal', color)
+    pdf.text(fitText(pdf, team.name || 'TBD', (MATCH_WIDTH - 52) * scale), left + 12 * scale, textY, { baseline: 'middle' })
+    if (match.valid) {
+      setFont(pdf, 16 * scale * PT_PER_MM, 'bold', COLORS.accent)
+      pdf.text(String(match.result[side]), left + (MATCH_WIDTH - 16) * scale, textY, { baseline: 'middle', align: 'center' })
+    }
+  })
+
+  pdf.setDrawColor(COLORS.border)
+  pdf.setLineWidth(0.3)
+  if (!match.valid) pdf.setLineDashPattern([1.5, 1], 0)
+  pdf.roundedRect(left, top, width, MATCH_HEIGHT * scale, 1.5, 1.5, 'S')
+  pdf.setLineDashPattern([], 0)
+  pdf.line(left, top + teamHeight, left + width, top + teamHeight)
+}
+
+// One elimination as a tree, shrunk to the page and spread over several pages when
+// it is still too large. Every page shows a clipped part of the full layout.
+const drawBracket = (writer: PdfWriter, layout: BracketLayout, title: string) => {
+  newPage(writer, 'landscape', title)
+  const { pdf } = writer
+  const area = getContentArea(pdf)
+  const fit = Math.min(area.width / layout.width, area.height / layout.height)
+  const scale = Math.min(MAX_BRACKET_SCALE, Math.max(MIN_BRACKET_SCALE, fit))
+
+  const columns = splitRange(layout.matches.map(({ x }) => [x, x + MATCH_WIDTH]), layout.width, area.width / scale)
+  const rows = splitRange(
+    [
+      ...layout.matches.map(({ y }): [number, number] => [y, y + MATCH_HEIGHT]),
+      ...layout.titles.map(({ y }): [number, number] => [y - 18, y + 6]),
+    ],
+    layout.height,
+    area.height / scale,
+  )
+  const tiles = rows.flatMap((row) => columns.map((column) => ({ row, column })))
+    .filter(({ row, column }) => layout.matches.some(({ x, y }) =>
+      x < column[1] && x + MATCH_WIDTH > column[0] && y < row[1] && y + MATCH_HEIGHT > row[0]))
+
+  tiles.forEach(({ row, column }, index) => {
+    const pageTitle = tiles.length > 1 ? `${title} (Teil ${index + 1}/${tiles.length})` : title
+    if (index > 0) newPage(writer, 'landscape', pageTitle)
+    else writer.pageTitles[writer.pageTitles.length - 1] = pageTitle
+    const toX = (x: number) => area.x + (x - column[0]) * scale
+    const toY = (y: number) => area.y + (y - row[0]) * scale
+
+    pdf.saveGraphicsState()
+    pdf.rect(area.x, area.y, (column[1] - column[0]) * scale, (row[1] - row[0]) * scale, null)
+    pdf.clip()
+    pdf.discardPath()
+
+    layout.connectors.forEach(({ points, played, drop }) => {
+      pdf.setDrawColor(played ? COLORS.accent : COLORS.border)
+      pdf.setLineWidth(played ? 0.5 : 0.3)
+      pdf.setLineDashPattern(drop ? [1.5, 1.2] : [], 0)
+      points.slice(1).forEach(([x, y], i) => pdf.line(toX(points[i][0]), toY(points[i][1]), toX(x), toY(y)))
+    })
+    pdf.setLineDashPattern([], 0)
+    layout.titles.forEach(({ text, x, y, variant }) => {
+      setFont(pdf, (variant === 'round' ? 14 : 16) * scale * PT_PER_MM, 'bold', variant === 'round' ? COLORS.accent : COLORS.title)
+      pdf.text(text, toX(x), toY(y), { align: variant === 'round' ? 'center' : 'left' })
+    })
+    layout.matches.forEach((placed) => drawBracketMatch(pdf, placed, toX, toY, scale))
+
+    pdf.restoreGraphicsState()
+  })
+}
+
+// Tournament name, section and logo on top, date and page number at the bottom of every page
+const drawPageFrames = (writer: PdfWriter, tournamentName: string, logo: PdfImage | null) => {
+  const { pdf } = writer
+  const pageCount = pdf.getNumberOfPages()
+  const date = new Date().toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' })
+
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page)
+    const width = pdf.internal.pageSize.getWidth()
+    const height = pdf.internal.pageSize.getHeight()
+    const logoWidth = logo ? LOGO_HEIGHT * logo.ratio : 0
+
+    setFont(pdf, 15, 'bold', COLORS.title)
+    pdf.text(fitText(pdf, tournamentName, width - MARGIN * 2 - logoWidth - 6), MARGIN, MARGIN + 6)
+    setFont(pdf, 10, 'normal', COLORS.muted)
+    pdf.text(writer.pageTitles[page - 1] ?? '', MARGIN, MARGIN + 11)
+    if (logo) {
+      pdf.addImage(logo.data, 'PNG', width - MARGIN - logoWidth, MARGIN, logoWidth, LOGO_HEIGHT)
+    }
+    pdf.setDrawColor(COLORS.accent)
+    pdf.setLineWidth(0.6)
+    pdf.line(MARGIN, MARGIN + 14, width - MARGIN, MARGIN + 14)
+
+    pdf.setDrawColor(COLORS.border)
+    pdf.setLineWidth(0.2)
+    pdf.line(MARGIN, height - MARGIN - 5, width - MARGIN, height - MARGIN - 5)
+    setFont(pdf, 9, 'normal', COLORS.muted)
+    pdf.text(`Stand: ${date}`, MARGIN, height - MARGIN)
+    pdf.text(`Seite ${page} von ${pageCount}`, width - MARGIN, height - MARGIN, { align: 'right' })
+  }
+}
+
+// SVGs without width and height have no usable size of their own, take it from the viewBox
+const getSvgRatio = (svg: string): number | null => {
+  const viewBox = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement.getAttribute('viewBox')
+  const [, , width, height] = viewBox?.split(/[\s,]+/).map(Number) ?? []
+  return width > 0 && height > 0 ? width / height : null
+}
+
+// A logo as PNG - jsPDF cannot embed SVGs. Null when it cannot be loaded.
+export const loadLogo = async (url: string): Promise<PdfImage | null> => {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return null
+    const blob = await response.blob()
+    const svgRatio = blob.type.includes('svg') ? getSvgRatio(await blob.text()) : null
+    const objectUrl = URL.createObjectURL(blob)
+    try {
+      const image = new Image()
+      await new Promise((resolve, reject) => {
+        image.onload = resolve
+        image.onerror = reject
+        image.src = objectUrl
+      })
+      const ratio = svgRatio ?? image.naturalWidth / image.naturalHeight
+      const canvas = document.createElement('canvas')
+      canvas.height = LOGO_PIXEL_HEIGHT
+      canvas.width = Math.round(LOGO_PIXEL_HEIGHT * ratio)
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+      return { data: canvas.toDataURL('image/png'), ratio }
+    } finally {
+      URL.revokeObjectURL(objectUrl)
+    }
+  } catch (err) {
+    console.error('Error loading a logo for the PDF:', err)
+    return null
+  }
+}
+
+// Results, one tree per elimination and the group tables as one A4 document. Parts
+// without data are left out, so a tournament without KO phase only has its tables.
+export const createTournamentPdf = (
+  tournamentData: TournamentData,
+  eliminations: EliminationGroup[],
+  logo: PdfImage | null,
+): jsPDF => {
+  const writer: PdfWriter = { pdf: new jsPDF('p', 'mm', 'a4'), y: 0, orientation: 'portrait', title: '', pageTitles: [] }
+
+  drawResults(writer, tournamentData, eliminations)
+  eliminations.forEach((elimination) => {
+    const title = eliminations.length > 1 && elimination.name ? `KO-Runde – ${elimination.name}` : 'KO-Runde'
+    drawBracket(writer, layoutBracket(elimination), title)
+  })
+  drawStandings(writer, tournamentData)
+
+  // jsPDF starts with an empty page, every part opened its own
+  if (writer.pageTitles.length > 0) writer.pdf.deletePage(1)
+  else writer.pageTitles.push('Keine Daten')
+  drawPageFrames(writer, tournamentData.name || 'Turnier', logo)
+  return writer.pdf
+}
+
+export const exportToPDF = async (tournamentData: TournamentData, eliminations: EliminationGroup[]) => {
+  const logo = SPONSOR.enabled ? await loadLogo(SPONSOR.logo) : null
+  const pdf = createTournamentPdf(tournamentData, eliminations, logo)
+  const date = new Date().toISOString().split('T')[0]
+  pdf.save(`${tournamentData.name || 'Turnier'}_${date}.pdf`)
+}
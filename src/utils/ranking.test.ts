@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { findFinalPlace, getEliminationRanking, getFinalRanking, rankByPlace } from './ranking'
+import { parseTournamentData } from '../api/schema'
+import { readFixture } from '../../mock/readFixture'
+import type { EliminationGroup, Group, Standing, TournamentData } from '../api/types'
+
+const team = (name: string, place: number): Standing => ({
+  _id: `id-${name}`,
+  name,
+  stats: { place, matches: 0, won: 0, lost: 0, draws: 0, goals: 0, goals_in: 0, goal_diff: 0, points: 0 },
+})
+
+const elimination = (name: string, standings: Standing[]): EliminationGroup => ({
+  _id: `elimination-${name}`,
+  name,
+  size: standings.length,
+  finished: true,
+  thirdPlace: false,
+  double: false,
+  standings,
+  levels: [],
+  leftLevels: [],
+})
+
+const group = (name: string, standings: Standing[]): Group => ({
+  _id: `group-${name}`,
+  name,
+  standings,
+  rounds: [],
+  levels: [],
+})
+
+const tournament = (eliminations: EliminationGroup[], qualifying: Group[]): TournamentData =>
+  ({ _id: 'turnier', name: 'Testturnier', eliminations, qualifying })
+
+// Places with the team names, e.g. [[1, ['A']], [3, ['C', 'D']]]
+const summary = (places: { place: number; teams: Standing[] }[]) =>
+  places.map(({ place, teams }) => [place, teams.map((t) => t.name)])
+
+describe('rankByPlace', () => {
+  it('lets teams share a place and skips the places they take', () => {
+    const teams = [team('A', 1), team('B', 2), team('C', 3), team('D', 3), team('E', 5)]
+    expect(summary(rankByPlace(teams))).toEqual([[1, ['A']], [2, ['B']], [3, ['C', 'D']], [5, ['E']]])
+  })
+
+  it('sorts by place and numbers from the given first place', () => {
+    const teams = [team('C', 3), team('A', 1), team('B', 2)]
+    expect(summary(rankByPlace(teams, 9))).toEqual([[9, ['A']], [10, ['B']], [11, ['C']]])
+  })
+
+  it('puts teams without a known place (0) last', () => {
+    const teams = [team('X', 0), team('A', 1), team('Y', 0), team('B', 2)]
+    expect(summary(rankByPlace(teams))).toEqual([[1, ['A']], [2, ['B']], [3, ['X', 'Y']]])
+  })
+})
+
+describe('getFinalRanking', () => {
+  it('is empty without data', () => {
+    expect(getFinalRanking(null)).toEqual([])
+  })
+
+  it('starts every elimination after all teams of the ones before', () => {
+    const main = elimination('KO-Runde', [team('A', 1), team('B', 2), team('C', 3), team('D', 3)])
+    const consolation = elimination('Trostrunde', [team('E', 1), team('F', 2)])
+    const ranking = getFinalRanking(tournament([main, consolation], []))
+
+    expect(ranking.map((section) => section.elimination?.name)).toEqual(['KO-Runde', 'Trostrunde'])
+    expect(summary(getEliminationRanking(ranking, main))).toEqual([[1, ['A']], [2, ['B']], [3, ['C', 'D']]])
+    expect(summary(getEliminationRanking(ranking, consolation))).toEqual([[5, ['E']], [6, ['F']]])
+  })
+
+  it('counts a team that is in two eliminations only once', () => {
+    const main = elimination('KO-Runde', [team('A', 1), team('B', 2)])
+    const consolation = elimination('Trostrunde', [team('B', 1), team('C', 2)])
+    const ranking = getFinalRanking(tournament([main, consolation], []))
+
+    expect(summary(getEliminationRanking(ranking, consolation))).toEqual([[3, ['C']]])
+  })
+
+  it('ranks the non-qualified teams after all KO teams, sharing places across groups', () => {
+    const groupA = group('Gruppe A', [team('A1', 1), team('A2', 2), team('A3', 3), team('A4', 4)])
+    const groupB = group('Gruppe B', [team('B1', 1), team('B2', 2), team('B3', 3), team('B4', 4), team('B5', 5)])
+    const main = elimination('KO-Runde', [team('A1', 1), team('B1', 2), team('A2', 3), team('B2', 3)])
+    const ranking = getFinalRanking(tournament([main], [groupA, groupB]))
+
+    expect(ranking).toHaveLength(2)
+    expect(ranking[1].elimination).toBeNull()
+    expect(summary(ranking[1].places)).toEqual([[5, ['A3', 'B3']], [7, ['A4', 'B4']], [9, ['B5']]])
+  })
+
+  it('leaves out eliminations without standings', () => {
+    const running = elimination('KO-Runde', [])
+    const ranking = getFinalRanking(tournament([running], [group('Vorrunde', [team('A', 1), team('B', 2)])]))
+
+    expect(ranking).toHaveLength(1)
+    expect(summary(ranking[0].places)).toEqual([[1, ['A']], [2, ['B']]])
+  })
+
+  it('ranks the recorded tournament with a consolation round', () => {
+    const data = parseTournamentData(readFixture('tournaments', '6840b2c1e4b0a1f2c3d4e5f6'))
+    const ranking = getFinalRanking(data)
+
+    expect(ranking.map(({ elimination, places }) => [elimination?.name ?? null, places.map((p) => p.place)])).toEqual([
+      ['KO-Runde', [1, 2, 3, 4, 5]],
+      ['Trostrunde', [9, 10, 11]],
+    ])
+    expect(ranking[0].places[4].teams).toHaveLength(4)
+    expect(ranking[1].places[2].teams).toHaveLength(2)
+  })
+})
+
+describe('findFinalPlace', () => {
+  const main = elimination('KO-Runde', [team('A', 1), team('B', 2)])
+  const ranking = getFinalRanking(tournament([main], [group('Vorrunde', [team('A', 1), team('B', 2), team('C', 3)])]))
+
+  it('finds the place and section of a KO team', () => {
+    const found = findFinalPlace(ranking, 'id-B')
+    expect(found?.place).toBe(2)
+    expect(found?.section.elimination).toBe(main)
+  })
+
+  it('finds a team that did not qualify', () => {
+    const found = findFinalPlace(ranking, 'id-C')
+    expect(found?.place).toBe(3)
+    expect(found?.section.elimination).toBeNull()
+  })
+
+  it('is null for an unknown team', () => {
+    expect(findFinalPlace(ranking, 'id-Z')).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+// Final ranking of a tournament, shared by the results view, the certificates and all exports.
+// Pure functions on the Kickertool data, so every place is computed the same way.
+
+import type { EliminationGroup, Standing, TournamentData } from '../api/types'
+
+export interface RankingPlace {
+  place: number        // Final place in the whole tournament
+  teams: Standing[]    // Several teams share a place, e.g. both losers of a semi final
+}
+
+export interface RankingSection {
+  elimination: EliminationGroup | null  // Null for the teams that did not reach a KO phase
+  places: RankingPlace[]
+}
+
+// Kickertool sends place 0 while a place is not known yet - those come last
+const sortKey = (place: number) => (place > 0 ? place : Infinity)
+
+// Teams bucketed by their place, best first, numbered from firstPlace on. A place shared by
+// n teams is followed by the place n further down (1, 2, 3, 3, 5).
+export const rankByPlace = (teams: Standing[], firstPlace = 1): RankingPlace[] => {
+  const byPlace = new Map<number, Standing[]>()
+  teams.forEach((team) => {
+    const key = sortKey(team.stats?.place ?? 0)
+    byPlace.set(key, [...(byPlace.get(key) ?? []), team])
+  })
+
+  let nextPlace = firstPlace
+  return [...byPlace.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, placeTeams]) => {
+      const place = nextPlace
+      nextPlace += placeTeams.length
+      return { place, teams: placeTeams }
+    })
+}
+
+// One ranking over all teams: the eliminations in their order, each one after all teams of
+// the ones before, then the teams that did not qualify. Those share a place with the teams
+// of the other groups that finished on the same group place.
+export const getFinalRanking = (tournamentData: TournamentData | null): RankingSection[] => {
+  if (!tournamentData) return []
+  const sections: RankingSection[] = []
+  const koTeamIds = new Set<string>()
+  let nextPlace = 1
+
+  tournamentData.eliminations
+    .filter((elimination) => elimination.standings.length > 0)
+    .forEach((elimination) => {
+      const teams = elimination.standings.filter((team) => !koTeamIds.has(team._id))
+      teams.forEach((team) => koTeamIds.add(team._id))
+      sections.push({ elimination, places: rankByPlace(teams, nextPlace) })
+      nextPlace += teams.length
+    })
+
+  const nonQualified = tournamentData.qualifying.flatMap((group) =>
+    group.standings.filter((team) => !koTeamIds.has(team._id)))
+  if (nonQualified.length > 0) {
+    sections.push({ elimination: null, places: rankByPlace(nonQualified, nextPlace) })
+  }
+  return sections
+}
+
+// The ranking section of one elimination
+export const getEliminationRanking = (ranking: RankingSection[], elimination: EliminationGroup): RankingPlace[] =>
+  ranking.find((section) => section.elimination?._id === elimination._id)?.places ?? []
+
+// Final place of a team by _id, with its section
+export const findFinalPlace = (
+  ranking: RankingSection[],
+  teamId: string,
+): { place: number; section: RankingSection } | null => {
+  for (const section of ranking) {
+    const found = section.places.find(({ teams }) => teams.some((team) => team._id === teamId))
+    if (found) return { place: found.place, section }
+  }
+  return null
+}
@@ -0,0 +1,75 @@
+// Timer signals generated with the Web Audio API - no audio files needed
+
+export type TimerCue = 'warning' | 'countdown' | 'phase' | 'end'
+
+export const TIMER_CUES: TimerCue[] = ['warning', 'countdown', 'phase', 'end']
+
+let audioContext: AudioContext | null = null
+
+// Browsers only allow audio after a user gesture, so call this from a click handler
+// (e.g. the start button) before the first cue is due
+export const unlockAudio = () => {
+  if (!audioContext) audioContext = new AudioContext()
+  if (audioContext.state === 'suspended') audioContext.resume().catch(() => {})
+}
+
+interface Tone {
+  frequency: number
+  start: number     // Seconds after now
+  duration: number  // Seconds
+  type?: OscillatorType
+}
+
+const playTones = (tones: Tone[], volume: number) => {
+  unlockAudio()
+  const ctx = audioContext!
+  const output = ctx.createGain()
+  output.gain.value = volume
+  output.connect(ctx.destination)
+
+  tones.forEach(({ frequency, start, duration, type = 'sine' }) => {
+    const begin = ctx.currentTime + start
+    const oscillator = ctx.createOscillator()
+    const envelope = ctx.createGain()
+    oscillator.type = type
+    oscillator.frequency.value = frequency
+    // Short attack and release to avoid clicks
+    envelope.gain.setValueAtTime(0, begin)
+    envelope.gain.linearRampToValueAtTime(1, begin + 0.01)
+    envelope.gain.setValueAtTime(1, begin + duration - 0.05)
+    envelope.gain.linearRampToValueAtTime(0, begin + duration)
+    oscillator.connect(envelope).connect(output)
+    oscillator.start(begin)
+    oscillator.stop(begin + duration)
+  })
+}
+
+// One minute left: two high beeps. Countdown: short tick per second. Next phase (e.g. half
+// time): rising two-tone. End: loud horn chord.
+const CUE_TONES: Record<TimerCue, Tone[]> = {
+  warning: [
+    { frequency: 880, start: 0, duration: 0.2 },
+    { frequency: 880, start: 0.3, duration: 0.2 },
+  ],
+  countdown: [{ frequency: 1200, start: 0, duration: 0.08, type: 'square' }],
+  phase: [
+    { frequency: 660, start: 0, duration: 0.3, type: 'triangle' },
+    { frequency: 990, start: 0.3, duration: 0.5, type: 'triangle' },
+  ],
+  end: [
+    { frequency: 220, start: 0, duration: 1.6, type: 'sawtooth' },
+    { frequency: 277, start: 0, duration: 1.6, type: 'sawtooth' },
+    { frequency: 330, start: 0, duration: 1.6, type: 'sawtooth' },
+  ],
+}
+
+// Quieter per-tone level for the chords so the sum does not clip
+const CUE_LEVELS: Record<TimerCue, number> = { warning: 0.5, countdown: 0.3, phase: 0.5, end: 0.25 }
+
+export const playCue = (cue: TimerCue, volume: number) => {
+  try {
+    playTones(CUE_TONES[cue], volume * CUE_LEVELS[cue])
+  } catch (err) {
+    console.error('Error playing sound:', err)
+  }
+}
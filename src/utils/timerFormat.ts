@@ -0,0 +1,109 @@
+// Match formats for the timer: one or more phases such as halves, breaks and overtime
+
+export type PhaseKind = 'play' | 'break' | 'overtime'
+
+export interface TimerPhase {
+  label: string
+  kind: PhaseKind
+  seconds: number | null  // null = open end (golden goal), only allowed for the last phase
+}
+
+export interface TimerPreset {
+  id: string
+  name: string
+  phases: TimerPhase[]
+}
+
+export const PHASE_KINDS: PhaseKind[] = ['play', 'break', 'overtime']
+
+export const PHASE_LABELS: Record<PhaseKind, string> = {
+  play: 'Spielzeit',
+  break: 'Pause',
+  overtime: 'Verlängerung',
+}
+
+const phase = (kind: PhaseKind, seconds: number | null, label = PHASE_LABELS[kind]): TimerPhase => ({ label, kind, seconds })
+
+// A plain countdown without phases
+export const singlePhase = (seconds: number): TimerPhase[] => [phase('play', seconds)]
+
+export const DEFAULT_PRESETS: TimerPreset[] = [
+  { id: '8min', name: '8 min', phases: singlePhase(8 * 60) },
+  { id: '10min', name: '10 min', phases: singlePhase(10 * 60) },
+  {
+    id: '2x5min',
+    name: '2×5 min',
+    phases: [phase('play', 5 * 60, '1. Halbzeit'), phase('break', 60), phase('play', 5 * 60, '2. Halbzeit')],
+  },
+  {
+    id: '10min-golden-goal',
+    name: '10 min + Golden Goal',
+    phases: [phase('play', 10 * 60), phase('overtime', null, 'Golden Goal')],
+  },
+]
+
+// Length of all timed phases in seconds
+export const getTotalSeconds = (phases: TimerPhase[]) =>
+  phases.reduce((sum, p) => sum + (p.seconds ?? 0), 0)
+
+export interface TimerPosition {
+  index: number           // Current phase, phases.length once the format is over
+  phase: TimerPhase | null
+  seconds: number         // Seconds left in the phase, or seconds played in an open phase
+  countsUp: boolean       // Open phase (golden goal) - counts up without an end
+  finished: boolean
+}
+
+// Where the format stands after `elapsedMs` of play (pauses not counted)
+export const getTimerPosition = (phases: TimerPhase[], elapsedMs: number): TimerPosition => {
+  let start = 0
+  for (let index = 0; index < phases.length; index++) {
+    const current = phases[index]
+    if (current.seconds === null) {
+      return { index, phase: current, seconds: Math.floor(Math.max(0, elapsedMs - start) / 1000), countsUp: true, finished: false }
+    }
+    const end = start + current.seconds * 1000
+    if (elapsedMs < end) {
+      return { index, phase: current, seconds: Math.ceil((end - elapsedMs) / 1000), countsUp: false, finished: false }
+    }
+    start = end
+  }
+  return { index: phases.length, phase: null, seconds: 0, countsUp: false, finished: true }
+}
+
+// Phases from storage or the editor - drops invalid ones, null when nothing is left
+export const parsePhases = (value: unknown): TimerPhase[] | null => {
+  if (!Array.isArray(value)) return null
+  const phases: TimerPhase[] = []
+  value.forEach((entry) => {
+    if (typeof entry !== 'object' || entry === null) return
+    const { label, kind, seconds } = entry as Record<string, unknown>
+    const validKind = (PHASE_KINDS as unknown[]).includes(kind) ? kind as PhaseKind : 'play'
+    const parsed = Number(seconds)
+    const validSeconds = seconds === null ? null : Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : undefined
+    if (validSeconds === undefined) return
+    phases.push(phase(validKind, validSeconds, typeof label === 'string' && label.trim() ? label.trim() : PHASE_LABELS[validKind]))
+  })
+
+  // Only the last phase may be open, and there has to be something to count down first
+  const openIndex = phases.findIndex((p) => p.seconds === null)
+  const valid = openIndex === -1 ? phases : phases.slice(0, openIndex + 1)
+  return valid.length > 0 && valid[0].seconds !== null ? valid : null
+}
+
+export const parsePresets = (value: unknown): TimerPreset[] | null => {
+  if (!Array.isArray(value)) return null
+  const presets: TimerPreset[] = []
+  value.forEach((entry, index) => {
+    if (typeof entry !== 'object' || entry === null) return
+    const { id, name, phases } = entry as Record<string, unknown>
+    const validPhases = parsePhases(phases)
+    if (!validPhases) return
+    presets.push({
+      id: typeof id === 'string' && id ? id : `preset-${index}`,
+      name: typeof name === 'string' && name.trim() ? name.trim() : `Vorgabe ${index + 1}`,
+      phases: validPhases,
+    })
+  })
+  return presets
+}
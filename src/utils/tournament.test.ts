@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { getAllMatches, getTeamDetail } from './tournament'
+import { parseTournamentData } from '../api/schema'
+import { readFixture } from '../../mock/readFixture'
+import type { TournamentData } from '../api/types'
+
+const load = (id: string) => parseTournamentData(readFixture('tournaments', id))
+
+describe('getAllMatches', () => {
+  it('lists the rounds of a double elimination in play order', () => {
+    const rounds = [...new Set(getAllMatches(load('6940b2c1e4b0a1f2c3d4e5f6')).map(({ roundName }) => roundName))]
+
+    expect(rounds).toEqual([
+      'Viertelfinale',
+      'Loser Bracket · Runde 1',
+      'Halbfinale',
+      'Loser Bracket · Runde 2',
+      'Winner Bracket Finale',
+      'Loser Bracket · Runde 3',
+      'Platz 3',
+      'Finale',
+    ])
+  })
+
+  it('keeps the recorded order of results', () => {
+    ['6740b2c1e4b0a1f2c3d4e5f6', '6940b2c1e4b0a1f2c3d4e5f6'].forEach((id) => {
+      const ends = getAllMatches(load(id)).map(({ match }) => match.timeEnd ?? 0)
+      expect(ends).toEqual([...ends].sort((a, b) => a - b))
+    })
+  })
+})
+
+describe('getTeamDetail', () => {
+  const TITANEN = '6740a1000000000000000001'
+  const STROMER = '6740a1000000000000000002'
+
+  // Renames a team in the standings, and in its matches too unless `standingsOnly`
+  const renamed = (data: TournamentData, teamId: string, name: string, standingsOnly = false): TournamentData =>
+    JSON.parse(JSON.stringify(data), (key, value) => {
+      const inStandings = key !== 'team1' && key !== 'team2'
+      return value?._id === teamId && 'name' in value && (inStandings || !standingsOnly) ? { ...value, name } : value
+    })
+
+  it('keeps two teams with the same name apart', () => {
+    const original = load('6740b2c1e4b0a1f2c3d4e5f6')
+    const data = renamed(original, STROMER, 'Tischkicker Titanen')
+    const titanen = getTeamDetail(data, TITANEN)
+    const stromer = getTeamDetail(data, STROMER)
+
+    expect(titanen?.played).toHaveLength(getTeamDetail(original, TITANEN)!.played.length)
+    expect(titanen?.groupPlace).toBe(1)
+    expect(stromer?.name).toBe('Tischkicker Titanen')
+    expect(stromer?.groupPlace).toBe(8)
+    expect(stromer?.played).toHaveLength(getTeamDetail(original, STROMER)!.played.length)
+  })
+
+  it('keeps the matches of a team renamed during the tournament', () => {
+    const original = load('6740b2c1e4b0a1f2c3d4e5f6')
+    const detail = getTeamDetail(renamed(original, TITANEN, 'Titanen 2.0', true), TITANEN)
+
+    expect(detail?.name).toBe('Titanen 2.0')
+    expect(detail?.played).toHaveLength(getTeamDetail(original, TITANEN)!.played.length)
+    expect(detail?.finalPlace).toEqual(getTeamDetail(original, TITANEN)!.finalPlace)
+  })
+})
@@ -0,0 +1,345 @@
+// Pure helpers for reading Kickertool tournament data, shared by all views and exports
+
+import { findFinalPlace, getFinalRanking } from './ranking'
+import type { Standing, Match, MatchTeam, Round, Group, EliminationGroup, Table, TournamentData } from '../api/types'
+
+// Get all qualifying groups
+export const getQualifyingGroups = (tournamentData: TournamentData | null): Group[] =>
+  tournamentData?.qualifying ?? []
+
+// Heading for a qualifying group - falls back to "Gruppe A", "Gruppe B", ...
+export const getGroupName = (group: Group, index: number, groupCount: number): string => {
+  if (group.name) return group.name
+  return groupCount > 1 ? `Gruppe ${String.fromCharCode(65 + index)}` : 'Vorrunde'
+}
+
+interface PlayableRound {
+  round: Round
+  name: string  // Display name, with the group or elimination when there are several
+}
+
+// Round 1 of every group before round 2 of any group, and so on
+const interleave = <T>(lists: T[][]): T[] => {
+  const result: T[] = []
+  const longest = Math.max(0, ...lists.map((list) => list.length))
+  for (let i = 0; i < longest; i++) {
+    lists.forEach((list) => {
+      if (i < list.length) result.push(list[i])
+    })
+  }
+  return result
+}
+
+// All rounds that can have matches on a table (qualifying rounds, KO and loser bracket
+// levels, third place match) in playing order
+const getPlayableRounds = (tournamentData: TournamentData): PlayableRound[] => {
+  const { qualifying, eliminations } = tournamentData
+  const named = (rounds: Round[], prefix: string): PlayableRound[] =>
+    rounds.map((round) => ({ round, name: `${prefix}${getRoundName(round.name)}` }))
+  const groupPrefix = (group: Group, index: number) =>
+    qualifying.length > 1 ? `${getGroupName(group, index, qualifying.length)} · ` : ''
+  const eliminationPrefix = (elimination: EliminationGroup) =>
+    eliminations.length > 1 && elimination.name ? `${elimination.name} · ` : ''
+
+  // Winner and loser bracket side by side, the third place match right before the final
+  const eliminationRounds = (elimination: EliminationGroup): PlayableRound[] => {
+    const prefix = eliminationPrefix(elimination)
+    const winner = named(elimination.levels, prefix)
+    const third = getThirdPlaceRound(elimination)
+    return [
+      ...interleave([winner.slice(0, -1), named(elimination.leftLevels, `${prefix}Loser Bracket · `)]),
+      ...(third ? [{ round: third, name: `${prefix}${getRoundName('THIRD')}` }] : []),
+      ...winner.slice(-1),
+    ]
+  }
+
+  return [
+    ...interleave(qualifying.map((group, i) => named(group.rounds, groupPrefix(group, i)))),
+    ...interleave(qualifying.map((group, i) => named(group.levels, groupPrefix(group, i)))),
+    ...interleave(eliminations.map(eliminationRounds)),
+  ]
+}
+
+const isOpenMatch = (match: Match) => !match.valid && !!match.team1?.name && !!match.team2?.name
+
+export interface QueuedMatch {
+  match: Match
+  roundName: string
+  nextUp: boolean  // Goes to one of the next free tables - its teams are up next
+}
+
+// Matches waiting for a table (not played, both teams known, no table yet) in round and
+// match order. The first ones up to the number of free tables (at least one) whose teams
+// are not playing right now are marked as next up.
+export const getMatchQueue = (tournamentData: TournamentData | null): QueuedMatch[] => {
+  if (!tournamentData) return []
+  const currentMatches = getCurrentMatches(tournamentData)
+  const playing = new Set(currentMatches.flatMap((m) => [m.team1.name, m.team2.name]))
+  let nextUpLeft = Math.max(1, getTables(tournamentData).length - currentMatches.length)
+
+  return getPlayableRounds(tournamentData).flatMap(({ round, name }) =>
+    round.matches.filter((m) => isOpenMatch(m) && m.tables.length === 0).map((match) => {
+      const nextUp = nextUpLeft > 0 && !playing.has(match.team1.name) && !playing.has(match.team2.name)
+      if (nextUp) nextUpLeft--
+      return { match, roundName: name, nextUp }
+    }),
+  )
+}
+
+// Get upcoming matches (not yet played and waiting for a table) in playing order
+export const getUpcomingMatches = (tournamentData: TournamentData | null): Match[] =>
+  getMatchQueue(tournamentData).map(({ match }) => match)
+
+// Get current matches (in progress - has table assigned but not completed)
+export const getCurrentMatches = (tournamentData: TournamentData | null): Match[] => {
+  if (!tournamentData) return []
+  // Match is current if it has a table assigned but is not yet valid (completed)
+  return getPlayableRounds(tournamentData).flatMap(({ round }) =>
+    round.matches.filter((match) => isOpenMatch(match) && match.tables.length > 0),
+  )
+}
+
+export interface RoundMatch {
+  match: Match
+  roundName: string
+}
+
+// Every match with its round name in playing order, played or not
+export const getAllMatches = (tournamentData: TournamentData | null): RoundMatch[] => {
+  if (!tournamentData) return []
+  return getPlayableRounds(tournamentData).flatMap(({ round, name }) =>
+    round.matches.map((match) => ({ match, roundName: name })),
+  )
+}
+
+// Every table seen in the tournament. Kickertool does not list the tables, so they are
+// collected from the matches.
+const getTables = (tournamentData: TournamentData): Table[] => {
+  const tables = new Map<string, Table>()
+  getPlayableRounds(tournamentData).forEach(({ round }) => {
+    round.matches.forEach((match) => match.tables.forEach((table) => tables.set(table._id, table)))
+  })
+  return [...tables.values()]
+}
+
+export interface TableStatus {
+  table: Table
+  match: Match | null   // Match on the table right now, null when the table is free
+  since: number | null  // End of the previous match on this table (ms) - when it was taken or became free
+  next: Match | null    // Queued match expected to go to this free table next
+}
+
+export interface TeamMatch {
+  match: Match
+  roundName: string
+  opponent: string  // Empty while the opponent is not determined
+  goals: number
+  goalsAgainst: number
+  outcome: 'won' | 'lost' | 'draw' | null  // null while not played
+}
+
+export interface TeamDetail {
+  name: string
+  groupName: string | null
+  groupPlace: number | null
+  finalPlace: { place: number; elimination: string } | null  // Place in a finished elimination
+  played: TeamMatch[]        // Played matches in playing order
+  goalDiffHistory: number[]  // Goal difference after each played match
+  next: TeamMatch | null     // Match on a table right now, otherwise the next one of the team
+}
+
+const isTeam = (team: MatchTeam | undefined, teamId: string) => !!team?._id && team._id === teamId
+
+// Everything about one team: its matches in all rounds, places and the next opponent.
+// Teams are found by _id, the name is only shown - it need not be unique and can change.
+export const getTeamDetail = (tournamentData: TournamentData | null, teamId: string): TeamDetail | null => {
+  if (!tournamentData) return null
+  const matches: TeamMatch[] = getPlayableRounds(tournamentData).flatMap(({ round, name: roundName }) =>
+    round.matches
+      .filter((match) => isTeam(match.team1, teamId) || isTeam(match.team2, teamId))
+      .map((match) => {
+        const side = isTeam(match.team1, teamId) ? 0 : 1
+        const goals = match.result[side]
+        const goalsAgainst = match.result[1 - side]
+        return {
+          match,
+          roundName,
+          opponent: (side === 0 ? match.team2 : match.team1)?.name ?? '',
+          goals,
+          goalsAgainst,
+          outcome: !match.valid ? null : goals > goalsAgainst ? 'won' : goals < goalsAgainst ? 'lost' : 'draw',
+        }
+      }))
+
+  const groups = getQualifyingGroups(tournamentData)
+  const groupIndex = groups.findIndex((group) => group.standings.some((team) => team._id === teamId))
+  const final = findFinalPlace(getFinalRanking(tournamentData), teamId)
+  const finished = final?.section.elimination?.finished ? final.section.elimination : null
+  if (matches.length === 0 && groupIndex === -1 && !finished) return null
+
+  // The standings carry the current name, a match keeps the one the team had back then
+  const standing = [...tournamentData.eliminations, ...groups]
+    .flatMap(({ standings }) => standings)
+    .find((team) => team._id === teamId)
+  const lastMatch = matches.at(-1)?.match
+  const name = standing?.name ?? (isTeam(lastMatch?.team1, teamId) ? lastMatch?.team1.name : lastMatch?.team2.name) ?? ''
+
+  const played = matches
+    .filter((m) => m.outcome !== null)
+    .sort((a, b) => (a.match.timeEnd ?? 0) - (b.match.timeEnd ?? 0))
+  let goalDiff = 0
+  const goalDiffHistory = played.map((m) => (goalDiff += m.goals - m.goalsAgainst))
+  const open = matches.filter((m) => m.outcome === null)
+
+  return {
+    name,
+    groupName: groupIndex === -1 ? null : getGroupName(groups[groupIndex], groupIndex, groups.length),
+    groupPlace: groups[groupIndex]?.standings.find((team) => team._id === teamId)?.stats.place || null,
+    finalPlace: final && finished ? { place: final.place, elimination: finished.name } : null,
+    played,
+    goalDiffHistory,
+    next: open.find((m) => m.match.tables.length > 0) ?? open[0] ?? null,
+  }
+}
+
+// Every table of the tournament with what is happening on it. The next-up matches of the
+// queue are handed out to the free tables in queue order.
+export const getTableBoard = (tournamentData: TournamentData | null): TableStatus[] => {
+  if (!tournamentData) return []
+  const lastEnd = new Map<string, number>()
+  const busy = new Map<string, Match>()
+
+  getPlayableRounds(tournamentData).forEach(({ round }) => {
+    round.matches.forEach((match) => {
+      const { timeEnd } = match
+      if (!match.valid || timeEnd === null) return
+      match.tables.forEach((table) => lastEnd.set(table._id, Math.max(lastEnd.get(table._id) ?? 0, timeEnd)))
+    })
+  })
+  getCurrentMatches(tournamentData).forEach((match) => busy.set(match.tables[0]._id, match))
+
+  const queue = getMatchQueue(tournamentData).filter((q) => q.nextUp).map((q) => q.match)
+  return getTables(tournamentData)
+    .sort((a, b) => a.name.localeCompare(b.name, 'de', { numeric: true }))
+    .map((table) => {
+      const match = busy.get(table._id) ?? null
+      return {
+        table,
+        match,
+        since: lastEnd.get(table._id) ?? null,
+        next: match ? null : queue.shift() ?? null,
+      }
+    })
+}
+
+export interface FinishedMatch {
+  match: Match
+  roundName: string
+  winner: 0 | 1 | null  // Index of the winning team, null for a draw
+}
+
+// Played matches with a result, most recent first
+export const getFinishedMatches = (tournamentData: TournamentData | null): FinishedMatch[] => {
+  if (!tournamentData) return []
+  return getPlayableRounds(tournamentData)
+    .flatMap(({ round, name }) => round.matches
+      .filter((match) => match.valid && match.team1?.name && match.team2?.name)
+      .map((match): FinishedMatch => {
+        const [goals1, goals2] = match.result
+        return { match, roundName: name, winner: goals1 === goals2 ? null : goals1 > goals2 ? 0 : 1 }
+      }))
+    .sort((a, b) => (b.match.timeEnd ?? 0) - (a.match.timeEnd ?? 0))
+}
+
+// How many places below the beaten top-3 team the winner has to be for an upset
+const UPSET_PLACE_GAP = 3
+
+// Group place of every team by name
+export const getTeamPlaces = (tournamentData: TournamentData | null): Map<string, number> => {
+  const places = new Map<string, number>()
+  getQualifyingGroups(tournamentData).forEach((group) => {
+    group.standings.forEach((team) => {
+      if (team.stats.place > 0) places.set(team.name, team.stats.place)
+    })
+  })
+  return places
+}
+
+// A top-3 team lost against a team well below it in the table
+export const isUpset = ({ match, winner }: FinishedMatch, places: Map<string, number>): boolean => {
+  if (winner === null) return false
+  const winnerPlace = places.get(winner === 0 ? match.team1.name : match.team2.name)
+  const loserPlace = places.get(winner === 0 ? match.team2.name : match.team1.name)
+  if (winnerPlace === undefined || loserPlace === undefined) return false
+  return loserPlace <= 3 && winnerPlace - loserPlace >= UPSET_PLACE_GAP
+}
+
+// Eliminations that have a bracket to show
+export const getEliminations = (tournamentData: TournamentData | null): EliminationGroup[] =>
+  tournamentData?.eliminations.filter((e) => e.levels.length > 0) ?? []
+
+// Get round display name
+export const getRoundName = (name: string): string => {
+  const upperName = name.toUpperCase()
+  if (upperName.includes('FINALS-1-1') || upperName === 'FINALE' || upperName === 'FINAL') return 'Finale'
+  if (upperName.includes('FINALS-1-2') || upperName.includes('SEMI') || upperName.includes('HALBFINALE')) return 'Halbfinale'
+  if (upperName.includes('FINALS-1-4') || upperName.includes('QUARTER') || upperName.includes('VIERTELFINALE')) return 'Viertelfinale'
+  if (upperName.includes('FINALS-1-8') || upperName.includes('ACHTELFINALE')) return 'Achtelfinale'
+  if (upperName.includes('FINALS-1-16')) return 'Sechzehntelfinale'
+  if (upperName.includes('THIRD') || upperName.includes('PLATZ 3') || upperName.includes('BRONZE')) return 'Platz 3'
+  if (/^\d+$/.test(name)) return `Runde ${name}`  // Qualifying rounds are only numbered
+  return name
+}
+
+export const isThirdPlaceRound = (name: string): boolean => {
+  const upperName = name.toUpperCase()
+  return upperName.includes('PLATZ') || upperName.includes('THIRD')
+}
+
+export const getMedalClass = (teamName: string | undefined, standings: Standing[] | undefined, roundName?: string) => {
+  // Only highlight in the Finale or Third Place match
+  const isFinale = roundName?.includes('FINALS-1-1') || roundName === 'Finale'
+  const isThirdPlace = roundName?.includes('THIRD') || roundName === 'Platz 3'
+  if (!isFinale && !isThirdPlace) return ''
+  if (!teamName || !standings) return ''
+  const index = standings.findIndex(s => s.name === teamName)
+  if (index === 0) return 'medal-gold'
+  if (index === 1) return 'medal-silver'
+  if (index === 2) return 'medal-bronze'
+  if (index === 3) return 'medal-fourth'
+  return ''
+}
+
+// Where a round sits in an elimination, which decides how its teams get medals
+export type BracketSection = 'winner' | 'loser' | 'third'
+
+// Medal classes for both teams of a bracket match
+export const getMatchMedals = (
+  match: Match,
+  round: Round,
+  section: BracketSection,
+  elimination: EliminationGroup,
+): [string, string] => {
+  if (section === 'winner' || (section === 'third' && !elimination.double)) {
+    const roundName = section === 'third' ? 'THIRD' : round.name
+    return [
+      getMedalClass(match.team1?.name, elimination.standings, roundName),
+      getMedalClass(match.team2?.name, elimination.standings, roundName),
+    ]
+  }
+
+  // In double elimination, the LOSER of the Platz 3 match gets 3rd place (bronze)
+  if (section === 'third' || isThirdPlaceRound(round.name)) {
+    return [
+      match.valid && match.result[0] < match.result[1] ? 'medal-bronze' : '',
+      match.valid && match.result[1] < match.result[0] ? 'medal-bronze' : '',
+    ]
+  }
+  return ['', '']
+}
+
+// Third place match round, if the elimination has one with matches
+export const getThirdPlaceRound = (elimination: EliminationGroup): Round | null => {
+  if (!elimination.thirdPlace || !elimination.third || elimination.third.matches.length === 0) return null
+  return elimination.third
+}
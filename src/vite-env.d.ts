@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the Kickertool API proxy, defaults to /api/kickertool on the same host
+  readonly VITE_KICKERTOOL_API_BASE?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
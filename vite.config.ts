@@ -1,16 +1,40 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { kickertoolMock } from './mock/kickertoolMock'
+import { remoteRelayPlugin } from './server/remoteRelay.js'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    proxy: {
-      '/api/kickertool': {
-        target: 'https://live.kickertool.de',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/kickertool/, '/api/table_soccer'),
-      },
+export default defineConfig(({ mode }) => {
+  // `vite --mode mock` serves recorded fixtures instead of proxying to Kickertool
+  if (mode === 'mock') {
+    const env = loadEnv(mode, process.cwd(), 'MOCK_')
+    return {
+      plugins: [
+        react(),
+        remoteRelayPlugin(),
+        kickertoolMock({
+          replay: env.MOCK_REPLAY !== 'false',
+          speed: Number(env.MOCK_SPEED) || 1,
+          matchSeconds: Number(env.MOCK_MATCH_SECONDS) || 45,
+          breakSeconds: Number(env.MOCK_BREAK_SECONDS) || 15,
+          tables: Number(env.MOCK_TABLES) || undefined,
+        }),
+      ],
+    }
+  }
+
+  // Same rewrite as server/index.js, so `npm run preview` can reach Kickertool too
+  const proxy = {
+    '/api/kickertool': {
+      target: 'https://live.kickertool.de',
+      changeOrigin: true,
+      rewrite: (path: string) => path.replace(/^\/api\/kickertool/, '/api/table_soccer'),
     },
-  },
+  }
+
+  return {
+    plugins: [react(), remoteRelayPlugin()],
+    server: { proxy },
+    preview: { proxy },
+  }
 })